@@ -1,17 +1,20 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Play, Trash2, AlertTriangle, Terminal, Pause, StepForward, Bug, Sun, Moon, Home, FolderOpen, Book, RotateCcw, Languages, GraduationCap, Menu, X, GripVertical, GripHorizontal, Award } from 'lucide-react';
-import { Lexer } from './services/algo/lexer';
-import { Parser } from './services/algo/parser';
-import { Interpreter } from './services/algo/interpreter';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Play, Trash2, AlertTriangle, Terminal, Pause, StepForward, Bug, Sun, Moon, Home, FolderOpen, Book, RotateCcw, Languages, GraduationCap, Menu, X, GripVertical, GripHorizontal, Award, ArrowDownToLine, ArrowUpFromLine, TextCursor, Layers, Settings, Share2, FlaskConical } from 'lucide-react';
 import { INITIAL_FILES, TRANSLATIONS, LESSONS } from './constants';
 import { EXAM_LESSONS } from './constants_exam';
 import { CodeEditor } from './components/CodeEditor';
-import { InterpreterEvent, RuntimeValue, ViewState, FileNode } from './types';
+import { RuntimeValue, ArrayBound, ViewState, FileNode, StackFrameInfo, VariablesSnapshot, StepCommand, WorkerRequest, WorkerResponse, ExecutionLimits, RuntimeErrorInfo, Diagnostic, FileHandle, TestResult, RunConfiguration } from './types';
+import { DEFAULT_LIMITS } from './services/algo/interpreter';
+import { isDataFileName } from './services/algo/files';
 import { Landing } from './components/Landing';
 import { Docs } from './components/Docs';
 import { FileExplorer } from './components/FileExplorer';
 import { LearningMode } from './components/LearningMode';
 import { ExamMode } from './components/ExamMode';
+import { HeapView, PointerVariable } from './components/HeapView';
+import { TestResultsPanel } from './components/TestResultsPanel';
+import { RunConfigurations } from './components/RunConfigurations';
+import { OutputDiff, OutputCheck } from './components/OutputDiff';
 
 const STORAGE_KEYS = {
   FILES: 'algolang_files_v1',
@@ -22,9 +25,20 @@ const STORAGE_KEYS = {
   COMPLETED_LESSONS: 'algolang_completed_lessons_v1',
   CURRENT_LESSON: 'algolang_current_lesson_v1',
   COMPLETED_EXAMS: 'algolang_completed_exams_v1',
-  CURRENT_EXAM: 'algolang_current_exam_v1'
+  CURRENT_EXAM: 'algolang_current_exam_v1',
+  LIMITS: 'algolang_limits_v1'
 };
 
+const EMPTY_SNAPSHOT: VariablesSnapshot = { globals: new Map(), frames: [], heap: [] };
+
+const RUN_TIMEOUT_MS = 10000;
+
+const hasRecords = (value: any): boolean =>
+  Array.isArray(value) ? value.some(hasRecords) : value !== null && typeof value === 'object';
+
+// A field or cell inside a record tree, where Char and String look alike
+const formatLeaf = (value: any): string => typeof value === 'boolean' ? (value ? 'True' : 'False') : value === null ? 'Nil' : String(value);
+
 const App: React.FC = () => {
   // Helper to safely load state from localStorage
   const loadState = <T,>(key: string, fallback: T): T => {
@@ -76,13 +90,37 @@ const App: React.FC = () => {
   // --- EXECUTION STATE ---
   const [output, setOutput] = useState<string[]>([]);
   const [errors, setErrors] = useState<string[]>([]);
+  const [runtimeError, setRuntimeError] = useState<RuntimeErrorInfo | null>(null);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const [outputCheck, setOutputCheck] = useState<OutputCheck | null>(null);
+  const programOutputRef = useRef<string[]>([]); // Lines the running program wrote, without the echoed input
+  const runConfigurationRef = useRef<RunConfiguration | null>(null); // Configuration the running program was started with
+  const runTargetRef = useRef<'program' | 'tests'>('program'); // Test runs leave the last program output alone
+  const editorErrors = useMemo(
+      () => runtimeError ? [...diagnostics, { line: runtimeError.line, message: runtimeError.message, span: runtimeError.span }] : diagnostics,
+      [diagnostics, runtimeError]
+  );
+  const runSourceRef = useRef(''); // Source of the program being run, for error excerpts even after edits
+  const runFolderRef = useRef('root'); // Folder whose .txt/.dat files the running program reads and writes
   const [isRunning, setIsRunning] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   
   // Debugging State
   const [breakpoints, setBreakpoints] = useState<Set<number>>(new Set());
   const [activeLine, setActiveLine] = useState<number | null>(null);
-  const [variables, setVariables] = useState<Map<string, RuntimeValue>>(new Map());
+  const [variables, setVariables] = useState<VariablesSnapshot>(EMPTY_SNAPSHOT);
+  const [callStack, setCallStack] = useState<StackFrameInfo[]>([]);
+  const [selectedFrameId, setSelectedFrameId] = useState<number | null>(null);
+  const [cursorLine, setCursorLine] = useState(1);
+
+  // Settings
+  const [limits, setLimits] = useState<ExecutionLimits>(() => ({ ...DEFAULT_LIMITS, ...loadState(STORAGE_KEYS.LIMITS, {}) }));
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [changedVariables, setChangedVariables] = useState<Set<string>>(new Set());
+  const [debugView, setDebugView] = useState<'variables' | 'heap'>('variables');
+  const [selectedRunConfigurations, setSelectedRunConfigurations] = useState<Record<string, string>>({}); // By file id
+  const [testResults, setTestResults] = useState<TestResult[] | null>(null); // The Tests panel shows once Run Tests is used
+  const [isTestRun, setIsTestRun] = useState(false);
   
   // Async Input Handling
   const [isWaitingForInput, setIsWaitingForInput] = useState(false);
@@ -91,7 +129,8 @@ const App: React.FC = () => {
   const [inputValue, setInputValue] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
   const consoleBottomRef = useRef<HTMLDivElement>(null);
-  const generatorRef = useRef<Generator<InterpreterEvent, void, any> | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const watchdogRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const t = TRANSLATIONS[lang];
 
@@ -107,6 +146,7 @@ const App: React.FC = () => {
   useEffect(() => { localStorage.setItem(STORAGE_KEYS.CURRENT_LESSON, JSON.stringify(currentLessonId)); }, [currentLessonId]);
   useEffect(() => { localStorage.setItem(STORAGE_KEYS.COMPLETED_EXAMS, JSON.stringify(completedExamLessons)); }, [completedExamLessons]);
   useEffect(() => { localStorage.setItem(STORAGE_KEYS.CURRENT_EXAM, JSON.stringify(currentExamLessonId)); }, [currentExamLessonId]);
+  useEffect(() => { localStorage.setItem(STORAGE_KEYS.LIMITS, JSON.stringify(limits)); }, [limits]);
 
   // Sync Document Attributes
   useEffect(() => {
@@ -179,7 +219,7 @@ const App: React.FC = () => {
         setCode(lesson.initialCode);
         stopExecution();
         setOutput([]);
-        setErrors([]);
+        setErrors([]); setRuntimeError(null); setDiagnostics([]);
     }
   };
 
@@ -191,7 +231,7 @@ const App: React.FC = () => {
         setCode(lesson.initialCode);
         stopExecution();
         setOutput([]);
-        setErrors([]);
+        setErrors([]); setRuntimeError(null); setDiagnostics([]);
     }
   };
   
@@ -230,7 +270,7 @@ const App: React.FC = () => {
         name,
         type: 'file',
         parentId,
-        content: `Algorithm ${name.replace('.algo', '')}\nBegin\n\nEnd`
+        content: isDataFileName(name) ? '' : `Algorithm ${name.replace('.algo', '')}\nBegin\n\nEnd`
     };
     setFiles(prev => [...prev, newFile]);
     handleFileSelect(newFile.id);
@@ -247,6 +287,31 @@ const App: React.FC = () => {
     setFiles(prev => [...prev, newFolder]);
   };
 
+  // Run configurations belong to the active file and are saved with it
+  const activeRunConfigurations = files.find(f => f.id === activeFileId)?.runConfigurations ?? [];
+  const selectedRunConfiguration = activeRunConfigurations.find(c => c.id === selectedRunConfigurations[activeFileId]) ?? null;
+
+  const selectRunConfiguration = (id: string | null) => {
+      setSelectedRunConfigurations(prev => ({ ...prev, [activeFileId]: id ?? '' }));
+  };
+
+  const saveRunConfiguration = (configuration: RunConfiguration) => {
+      setFiles(prev => prev.map(f => {
+          if (f.id !== activeFileId) return f;
+          const existing = f.runConfigurations ?? [];
+          return {
+              ...f,
+              runConfigurations: existing.some(c => c.id === configuration.id)
+                  ? existing.map(c => c.id === configuration.id ? configuration : c)
+                  : [...existing, configuration]
+          };
+      }));
+  };
+
+  const deleteRunConfiguration = (id: string) => {
+      setFiles(prev => prev.map(f => f.id === activeFileId ? { ...f, runConfigurations: (f.runConfigurations ?? []).filter(c => c.id !== id) } : f));
+  };
+
   const deleteItem = (id: string) => {
       setFiles(prev => prev.filter(f => f.id !== id && f.parentId !== id));
       if (activeFileId === id) {
@@ -266,97 +331,190 @@ const App: React.FC = () => {
       });
   };
 
-  const startExecution = () => {
+  // Keep a running program's breakpoints in sync with the gutter
+  useEffect(() => {
+      workerRef.current?.postMessage({ type: 'breakpoints', lines: Array.from(breakpoints) } as WorkerRequest);
+  }, [breakpoints]);
+
+  const startExecution = () => launchExecution('run');
+  const startTests = () => launchExecution('run', undefined, 'tests');
+
+  const launchExecution = (command: StepCommand, line?: number, target: 'program' | 'tests' = 'program') => {
+    stopExecution();
     setIsRunning(true);
+    setIsTestRun(target === 'tests');
+    if (target === 'tests') setTestResults([]);
     setIsPaused(false);
     setIsWaitingForInput(false);
     setActiveLine(null);
     setOutput([]);
-    setErrors([]);
-    setVariables(new Map());
+    setErrors([]); setRuntimeError(null); setDiagnostics([]);
+    setOutputCheck(null);
+    runTargetRef.current = target;
+    if (target === 'program') programOutputRef.current = [];
+    // Lessons and exams run their own code, so only the IDE uses the file's configuration;
+    // tests run without any preset input
+    const runConfiguration = view === 'ide' && target === 'program' ? selectedRunConfiguration : null;
+    runConfigurationRef.current = runConfiguration;
+    setVariables(EMPTY_SNAPSHOT);
+    setChangedVariables(new Set());
+    setCallStack([]);
+    setSelectedFrameId(null);
+    
+    runSourceRef.current = code;
+    // A program sees the data files in its own folder, by name
+    const folderId = files.find(f => f.id === activeFileId)?.parentId ?? 'root';
+    runFolderRef.current = folderId;
+    const programFiles = files
+        .filter(f => f.type === 'file' && f.parentId === folderId && isDataFileName(f.name))
+        .map(f => ({ name: f.name, content: f.content ?? '' }));
     
     // Auto switch to console on mobile when run starts
     setActiveMobileTab('console');
 
-    setTimeout(() => {
-        try {
-            const lexer = new Lexer(code);
-            const tokens = lexer.tokenize();
-            const parser = new Parser(tokens);
-            const ast = parser.parse();
-            const interpreter = new Interpreter();
-            generatorRef.current = interpreter.execute(ast);
-            processGenerator();
-        } catch (e: any) {
-            setErrors([e.message]);
-            setIsRunning(false);
-        }
-    }, 50);
-  };
-
-  const processGenerator = (injectedValue?: any, stepOver = false) => {
-    if (!generatorRef.current) return;
-    try {
-        let result = generatorRef.current.next(injectedValue);
-        const loop = () => {
-             let steps = 0;
-             while (!result.done && steps < 500) {
-                const event = result.value as InterpreterEvent;
-                if (event.type === 'step') {
-                    setActiveLine(event.line);
-                    setVariables(event.variables);
-                    if (stepOver || breakpoints.has(event.line)) {
-                        setIsPaused(true);
-                        return;
-                    }
-                } else if (event.type === 'output') {
-                    setOutput(prev => [...prev, event.value]);
-                } else if (event.type === 'error') {
-                    setErrors(prev => [...prev, event.value]);
-                    stopExecution();
-                    return;
-                } else if (event.type === 'input') {
-                    setIsWaitingForInput(true);
-                    setCurrentInputVar(event.varName);
-                    setExpectedType(event.varType);
-                    return; 
-                }
-                result = generatorRef.current!.next();
-                steps++;
-             }
-             if (result.done) stopExecution();
-             else setTimeout(loop, 0);
-        };
-        loop();
-    } catch (e: any) {
+    // The whole Lexer/Parser/Interpreter pipeline runs off the main thread, so a runaway loop
+    // cannot freeze the tab and Stop can always terminate it.
+    const worker = new Worker(new URL('./services/algo/worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => handleWorkerMessage(e.data);
+    worker.onerror = (e: ErrorEvent) => {
         setErrors(prev => [...prev, `System Error: ${e.message}`]);
         stopExecution();
-    }
+    };
+    workerRef.current = worker;
+    postToWorker({ type: 'start', code, breakpoints: Array.from(breakpoints), limits, files: programFiles, command, line, target, stdin: runConfiguration?.input ?? [] });
+  };
+
+  const postToWorker = (request: WorkerRequest) => {
+      if (!workerRef.current) return;
+      workerRef.current.postMessage(request);
+      // Any message that lets the program move again re-arms the watchdog
+      if (request.type === 'start' || request.type === 'resume' || request.type === 'input') armWatchdog();
+  };
+
+  // Fires when the worker goes quiet: each 'step' it sends re-arms it, so a long program that keeps
+  // making progress is only ever stopped by its step budget. Paused or waiting-for-input time does not count
+  const armWatchdog = () => {
+      disarmWatchdog();
+      watchdogRef.current = setTimeout(() => {
+          setErrors(prev => [...prev, `Runtime Error: Execution stopped responding for ${RUN_TIMEOUT_MS / 1000} seconds.`]);
+          stopExecution();
+      }, RUN_TIMEOUT_MS);
+  };
+
+  const disarmWatchdog = () => {
+      if (watchdogRef.current !== null) clearTimeout(watchdogRef.current);
+      watchdogRef.current = null;
+  };
+
+  const showVariables = (snapshot: VariablesSnapshot, changed: string[]) => {
+      setVariables(snapshot);
+      setChangedVariables(new Set(changed));
+  };
+
+  const handleWorkerMessage = (message: WorkerResponse) => {
+      switch (message.type) {
+          case 'output':
+              if (runTargetRef.current === 'program') programOutputRef.current.push(message.value);
+              setOutput(prev => [...prev, message.value]);
+              break;
+          case 'echo':
+              setOutput(prev => [...prev, `> ${message.value}`]);
+              break;
+          case 'file': {
+              // Created by Rewrite or saved by Close; the explorer shows the new content right away
+              const folderId = runFolderRef.current;
+              setFiles(prev => prev.some(f => f.type === 'file' && f.parentId === folderId && f.name === message.name)
+                  ? prev.map(f => f.type === 'file' && f.parentId === folderId && f.name === message.name ? { ...f, content: message.content } : f)
+                  : [...prev, { id: `${Date.now()}-${message.name}`, name: message.name, type: 'file', parentId: folderId, content: message.content }]);
+              break;
+          }
+          case 'test':
+              setTestResults(prev => [...(prev ?? []), message.result]);
+              break;
+          case 'step':
+              armWatchdog();
+              setActiveLine(message.line);
+              setCallStack(message.callStack);
+              break;
+          case 'paused':
+              disarmWatchdog();
+              setActiveLine(message.line);
+              setCallStack(message.callStack);
+              setSelectedFrameId(null);
+              showVariables(message.variables, message.changed);
+              setIsPaused(true);
+              break;
+          case 'input':
+              disarmWatchdog();
+              showVariables(message.variables, message.changed);
+              setIsWaitingForInput(true);
+              setCurrentInputVar(message.varName);
+              setExpectedType(message.varType);
+              break;
+          case 'error':
+              setErrors(prev => [...prev, message.value]);
+              if (message.error) setRuntimeError(message.error);
+              if (message.variables) showVariables(message.variables, []);
+              checkOutput();
+              stopExecution();
+              break;
+          case 'diagnostics':
+              const label = message.phase === 'syntax' ? 'Syntax Error' : 'Type Error';
+              setErrors(prev => [...prev, ...message.diagnostics.map(d => `${label}: Line ${d.line}: ${d.message}`)]);
+              setDiagnostics(message.diagnostics);
+              stopExecution();
+              break;
+          case 'done':
+              showVariables(message.variables, message.changed);
+              checkOutput();
+              stopExecution();
+              break;
+      }
+  };
+
+  // Once the program has finished, what it wrote is compared with its configuration's expected output
+  const checkOutput = () => {
+      const configuration = runConfigurationRef.current;
+      if (configuration?.expectedOutput) {
+          setOutputCheck({ name: configuration.name, expected: configuration.expectedOutput, actual: programOutputRef.current });
+      }
   };
 
   const stopExecution = () => {
+      disarmWatchdog();
+      workerRef.current?.terminate();
+      workerRef.current = null;
       setIsRunning(false);
+      setIsTestRun(false);
       setIsPaused(false);
       setIsWaitingForInput(false);
       setActiveLine(null);
-      generatorRef.current = null;
+      setCallStack([]);
+      setSelectedFrameId(null);
   };
 
-  const stepOver = () => {
+  const continueWith = (command: StepCommand, line?: number) => {
       if (!isPaused || !isRunning) return;
-      processGenerator(undefined, true);
+      setIsPaused(false);
+      postToWorker({ type: 'resume', command, line });
   };
 
-  const resumeExecution = () => {
-      if (!isPaused || !isRunning) return;
-      setIsPaused(false);
-      processGenerator(undefined, false);
+  const stepInto = () => continueWith('into');
+  const stepOver = () => continueWith('over');
+  const stepOut = () => continueWith('out');
+  const resumeExecution = () => continueWith('run');
+  const pauseExecution = () => postToWorker({ type: 'pause' });
+
+  const runToCursor = () => {
+      if (!isRunning) launchExecution('cursor', cursorLine);
+      else continueWith('cursor', cursorLine);
   };
 
   const validateInput = (val: string, type: string): boolean => {
       if (type === 'Integer') return /^-?\d+$/.test(val);
       if (type === 'Real') return /^-?\d+(\.\d+)?$/.test(val) || /^-?\d+$/.test(val);
       if (type === 'Boolean') return /^(true|false)$/i.test(val);
+      if (type === 'Char') return val.length === 1;
       return true;
   };
 
@@ -373,16 +531,128 @@ const App: React.FC = () => {
       const val = inputValue;
       setInputValue('');
       setIsWaitingForInput(false);
-      processGenerator(val);
+      postToWorker({ type: 'input', value: val });
   };
 
-  const renderValue = (v: RuntimeValue) => {
-      if (v.type === 'Array') return `[${(v.value as any[]).join(', ')}]`;
+  // One group for the globals, then one per call. A frame picked in the Call Stack panel shows only its own group.
+  const selectedFrame = callStack.find(f => f.id === selectedFrameId);
+  const variableGroups = [
+      { id: callStack[callStack.length - 1]?.id ?? 0, title: t.globals, entries: Array.from(variables.globals.entries()).map(([name, val]) => ({ name, val, isParam: false })) },
+      ...variables.frames.map((frame, idx) => ({
+          id: frame.id,
+          title: `${frame.name} #${idx + 1}`,
+          entries: [
+              ...Array.from(frame.params.entries()).map(([name, val]) => ({ name, val, isParam: true })),
+              ...Array.from(frame.locals.entries()).map(([name, val]) => ({ name, val, isParam: false }))
+          ]
+      }))
+  ].filter(group => !selectedFrame || group.id === selectedFrame.id);
+
+  // Pointer variables, and the cells of one-dimensional pointer arrays, get an arrow into the heap view
+  const pointerVariables: PointerVariable[] = variableGroups.flatMap(group => group.entries.flatMap(({ name, val }): PointerVariable[] => {
+      if (val.type === 'Pointer') return [{ key: `${group.id}:${name}`, name, value: val.value }];
+      if (val.type === 'Array' && val.arrayType?.startsWith('^') && val.dims?.length === 1) {
+          return (val.value as (number | null)[]).map((cell, i) => ({ key: `${group.id}:${name}[${i}]`, name: `${name}[${val.dims![0].low + i}]`, value: cell }));
+      }
+      return [];
+  }));
+
+  // `key` is the variable's change key; its cells extend it with their indexes, like 3:matrix[2][5]
+  const renderValue = (v: RuntimeValue, key: string): React.ReactNode => {
+      if (v.type === 'Record' || (v.type === 'Array' && hasRecords(v.value))) return <ValueTree value={v.value} dims={v.dims} path={key} />;
+      if (v.type === 'Array') return renderCells(v.value, v.dims, key);
+      if (v.type === 'Pointer') return v.value === null ? 'Nil' : `@${v.value}`;
+      if (v.type === 'File') {
+          const file = v.value as FileHandle;
+          if (file.name === null) return '—';
+          return file.mode === 'read' ? `"${file.name}" (${file.mode}, line ${file.position + 1})` : `"${file.name}" (${file.mode})`;
+      }
+      if (v.type === 'Boolean') return v.value ? 'True' : 'False';
+      if (v.type === 'Char') return `'${v.value}'`;
       return v.value.toString();
   };
 
+  const changedClass = isDarkMode ? 'bg-amber-500/10' : 'bg-amber-100';
+
+  // A plain array on one line, rows nested in brackets; cells and rows written since the last pause are highlighted
+  const renderCells = (value: any[], dims: ArrayBound[] | undefined, path: string): React.ReactNode => {
+      const low = dims?.[0]?.low ?? 0;
+      return (
+          <>[{value.map((cell, i) => {
+              const cellPath = `${path}[${low + i}]`;
+              return (
+                  <React.Fragment key={i}>
+                      {i > 0 && ', '}
+                      <span className={changedVariables.has(cellPath) ? changedClass : undefined}>
+                          {Array.isArray(cell) ? renderCells(cell, dims?.slice(1), cellPath) : formatLeaf(cell)}
+                      </span>
+                  </React.Fragment>
+              );
+          })}]</>
+      );
+  };
+
   // --- SHARED COMPONENTS ---
 
+  // Records, and arrays holding them, expand as a tree of fields; plain arrays stay on one line
+  const ValueTree = ({ value, dims, path }: { value: any, dims?: ArrayBound[], path: string }) => {
+      if (Array.isArray(value)) {
+          if (!hasRecords(value)) return <>{renderCells(value, dims, path)}</>;
+          const low = dims?.[0]?.low ?? 0;
+          return (
+              <ul className="ps-3">
+                  {value.map((item, i) => (
+                      <li key={i} className={changedVariables.has(`${path}[${low + i}]`) ? changedClass : undefined}>
+                          <span className="text-slate-400">[{low + i}]</span> <ValueTree value={item} dims={dims?.slice(1)} path={`${path}[${low + i}]`} />
+                      </li>
+                  ))}
+              </ul>
+          );
+      }
+      if (value !== null && typeof value === 'object') {
+          return (
+              <details open className="inline-block align-top">
+                  <summary className="cursor-pointer text-slate-400">{'{…}'}</summary>
+                  <ul className="ps-3">
+                      {Object.entries(value).map(([field, fieldValue]) => (
+                          <li key={field}><span className="text-emerald-500">{field}</span>: <ValueTree value={fieldValue} path={`${path}.${field}`} /></li>
+                      ))}
+                  </ul>
+              </details>
+          );
+      }
+      return <>{formatLeaf(value)}</>;
+  };
+
+  // A few lines of source around a runtime error, plus the failing expression and the call stack
+  const ErrorExcerpt = ({ error }: { error: RuntimeErrorInfo }) => {
+      const lines = runSourceRef.current.split('\n');
+      const first = Math.max(1, error.line - 1);
+      const last = Math.min(lines.length, error.line + 1);
+      const gutterWidth = String(last).length;
+      const excerpt: string[] = [];
+      for (let n = first; n <= last; n++) {
+          excerpt.push(`${n === error.line ? '>' : ' '} ${String(n).padStart(gutterWidth)} | ${lines[n - 1] ?? ''}`);
+          if (n === error.line && error.span) {
+              // A span that runs onto later lines is underlined to the end of its first line
+              const { column, endLine, endColumn } = error.span;
+              const end = endLine === n ? endColumn : (lines[n - 1] ?? '').length + 1;
+              excerpt.push(`  ${' '.repeat(gutterWidth)} | ${' '.repeat(column - 1)}${'^'.repeat(Math.max(1, end - column))}`);
+          }
+      }
+      return (
+          <div className="text-xs text-red-300/90 bg-red-900/5 p-2 rounded border border-red-900/20 space-y-1" dir="ltr">
+              <pre className="whitespace-pre overflow-x-auto">{excerpt.join('\n')}</pre>
+              {error.expression && <div>{t.inExpression}: <code className="text-red-300">{error.expression}</code></div>}
+              {error.callStack.length > 1 && (
+                  <div className="text-slate-400">
+                      {error.callStack.map(frame => `${frame.name} (${t.line} ${frame.line})`).join(' ← ')}
+                  </div>
+              )}
+          </div>
+      );
+  };
+
   const ConsoleComponent = () => (
       <div 
         className={`flex-1 flex flex-col cursor-text h-full ${isDarkMode ? 'bg-[#05110a]' : 'bg-[#1e1e1e]'} `} 
@@ -394,7 +664,7 @@ const App: React.FC = () => {
                 <Terminal size={14} className="text-slate-400" />
                 <span className="text-xs font-mono text-slate-400">{t.terminal}</span>
             </div>
-            <button onClick={(e) => { e.stopPropagation(); setOutput([]); setErrors([])}} className="text-slate-500 hover:text-red-400 transition-colors"><Trash2 size={14} /></button>
+            <button onClick={(e) => { e.stopPropagation(); setOutput([]); setErrors([]); setRuntimeError(null); setDiagnostics([]); setOutputCheck(null); }} className="text-slate-500 hover:text-red-400 transition-colors"><Trash2 size={14} /></button>
         </div>
         
         <div className="flex-1 p-4 font-mono text-sm overflow-y-auto space-y-1 custom-scrollbar">
@@ -412,6 +682,8 @@ const App: React.FC = () => {
                     <span className="break-words">{err}</span>
                 </div>
             ))}
+            {runtimeError && <ErrorExcerpt error={runtimeError} />}
+            {outputCheck && <OutputDiff check={outputCheck} lang={lang} />}
             {isWaitingForInput && (
                 <div className="flex items-center text-slate-200">
                     <span className="mr-2 text-emerald-500 font-bold animate-pulse">{`>`}</span>
@@ -553,7 +825,7 @@ const App: React.FC = () => {
                     onRun={startExecution}
                     onStop={stopExecution}
                     onConsoleLog={(lines) => setOutput(prev => [...prev, ...lines])}
-                    onClearConsole={() => { setOutput([]); setErrors([]); }}
+                    onClearConsole={() => { setOutput([]); setErrors([]); setRuntimeError(null); setDiagnostics([]); setOutputCheck(null); }}
                     isRunning={isRunning}
                     isDarkMode={isDarkMode}
                     lang={lang}
@@ -584,11 +856,65 @@ const App: React.FC = () => {
                     <div className="flex items-center gap-2">
                         {isRunning ? (
                             <>
-                                <button onClick={stopExecution} className="p-2 bg-red-600 text-white rounded-md shadow-sm">
+                                <div className={`flex items-center gap-1 p-1 rounded-md ${isDarkMode ? 'bg-slate-800/60' : 'bg-slate-100'}`} dir="ltr">
+                                    <button
+                                        onClick={pauseExecution}
+                                        disabled={isPaused || isWaitingForInput}
+                                        title={t.pause}
+                                        className={`p-1.5 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${isDarkMode ? 'text-amber-400 hover:bg-emerald-900/50' : 'text-amber-600 hover:bg-amber-100'}`}
+                                    >
+                                        <Pause size={16} />
+                                    </button>
+                                    {[
+                                        { label: t.resume, icon: <Play size={16} />, action: resumeExecution },
+                                        { label: t.stepOver, icon: <StepForward size={16} />, action: stepOver },
+                                        { label: t.stepInto, icon: <ArrowDownToLine size={16} />, action: stepInto },
+                                        { label: t.stepOut, icon: <ArrowUpFromLine size={16} />, action: stepOut },
+                                        { label: t.runToCursor, icon: <TextCursor size={16} />, action: runToCursor }
+                                    ].map(({ label, icon, action }) => (
+                                        <button
+                                            key={label}
+                                            onClick={action}
+                                            disabled={!isPaused}
+                                            title={label}
+                                            className={`p-1.5 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${isDarkMode ? 'text-emerald-400 hover:bg-emerald-900/50' : 'text-emerald-700 hover:bg-emerald-100'}`}
+                                        >
+                                            {icon}
+                                        </button>
+                                    ))}
+                                </div>
+                                <button onClick={stopExecution} className="p-2 bg-red-600 text-white rounded-md shadow-sm" title={t.stop}>
                                     <Trash2 size={16} />
                                 </button>
                             </>
                         ) : (
+                            <>
+                            <RunConfigurations
+                                configurations={activeRunConfigurations}
+                                selectedId={selectedRunConfiguration?.id ?? null}
+                                onSelect={selectRunConfiguration}
+                                onSave={saveRunConfiguration}
+                                onDelete={deleteRunConfiguration}
+                                lastOutput={programOutputRef.current}
+                                isDarkMode={isDarkMode}
+                                lang={lang}
+                            />
+                            <button
+                                onClick={runToCursor}
+                                disabled={!activeFileId}
+                                title={t.runToCursor}
+                                className={`p-2 rounded-md transition-colors disabled:opacity-30 ${isDarkMode ? 'text-emerald-400 hover:bg-emerald-900/50' : 'text-emerald-700 hover:bg-emerald-50'}`}
+                            >
+                                <TextCursor size={16} />
+                            </button>
+                            <button
+                                onClick={startTests}
+                                disabled={!activeFileId}
+                                title={t.runTests}
+                                className={`p-2 rounded-md transition-colors disabled:opacity-30 ${isDarkMode ? 'text-emerald-400 hover:bg-emerald-900/50' : 'text-emerald-700 hover:bg-emerald-50'}`}
+                            >
+                                <FlaskConical size={16} />
+                            </button>
                             <button 
                                 onClick={startExecution} 
                                 disabled={!activeFileId} 
@@ -602,7 +928,48 @@ const App: React.FC = () => {
                                 <Play size={16} fill="currentColor" className={lang === 'ar' ? 'rotate-180' : ''} /> 
                                 <span className="hidden sm:inline">{t.run}</span>
                             </button>
+                            </>
                         )}
+                        <div className="relative">
+                            <button
+                                onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+                                title={t.settings}
+                                className={`p-2 rounded-md transition-colors ${isDarkMode ? 'text-slate-400 hover:bg-emerald-900/50' : 'text-slate-500 hover:bg-slate-100'}`}
+                            >
+                                <Settings size={16} />
+                            </button>
+                            {isSettingsOpen && (
+                                <div className={`absolute end-0 top-full mt-2 w-64 p-4 rounded-lg shadow-xl border z-50 space-y-3 ${isDarkMode ? 'bg-[#0f281a] border-emerald-900/50' : 'bg-white border-slate-200'}`}>
+                                    <div className={`text-sm font-bold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{t.settings}</div>
+                                    {([
+                                        { key: 'maxSteps', label: t.maxSteps, min: 1000 },
+                                        { key: 'maxCallDepth', label: t.maxCallDepth, min: 10 }
+                                    ] as const).map(({ key, label, min }) => (
+                                        <label key={key} className="block text-xs">
+                                            <span className={isDarkMode ? 'text-slate-400' : 'text-slate-500'}>{label}</span>
+                                            <input
+                                                type="number"
+                                                min={min}
+                                                value={limits[key]}
+                                                onChange={(e) => {
+                                                    const value = parseInt(e.target.value, 10);
+                                                    if (!isNaN(value)) setLimits(prev => ({ ...prev, [key]: Math.max(min, value) }));
+                                                }}
+                                                className={`mt-1 w-full px-2 py-1 rounded border font-mono text-sm outline-none focus:border-emerald-500 ${isDarkMode ? 'bg-[#0a1f13] border-emerald-900/50 text-slate-200' : 'bg-slate-50 border-slate-200 text-slate-800'}`}
+                                                dir="ltr"
+                                            />
+                                        </label>
+                                    ))}
+                                    <p className="text-[11px] text-slate-400">{t.limitsHint}</p>
+                                    <button
+                                        onClick={() => setLimits(DEFAULT_LIMITS)}
+                                        className={`text-xs flex items-center gap-1 ${isDarkMode ? 'text-emerald-400' : 'text-emerald-700'}`}
+                                    >
+                                        <RotateCcw size={12} /> {t.resetDefaults}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
                         <button 
                              onClick={() => setLang(lang === 'en' ? 'ar' : 'en')}
                              className={`md:hidden p-2 rounded-lg font-bold ${isDarkMode ? 'text-emerald-400' : 'text-emerald-700'}`}
@@ -696,6 +1063,8 @@ const App: React.FC = () => {
                                     breakpoints={breakpoints}
                                     onToggleBreakpoint={toggleBreakpoint}
                                     activeLine={activeLine}
+                                    errors={editorErrors}
+                                    onCursorLineChange={setCursorLine}
                                     isDarkMode={isDarkMode}
                                 />
                             ) : (
@@ -723,14 +1092,56 @@ const App: React.FC = () => {
                              `}
                              style={{ height: window.innerWidth >= 1024 ? `${bottomPanelHeight}%` : 'auto' }}
                          >
-                            <ConsoleComponent />
+                            <div className="flex-1 flex flex-row min-h-0">
+                                <ConsoleComponent />
+                                {testResults && (
+                                    <TestResultsPanel results={testResults} isRunning={isTestRun} onClose={() => setTestResults(null)} isDarkMode={isDarkMode} lang={lang} />
+                                )}
+                            </div>
                             
+                            <div className={`h-1/3 min-h-[100px] flex flex-row border-t ${isDarkMode ? 'bg-[#0a1f13] border-emerald-900/30' : 'bg-white border-slate-200'}`}>
+                            {/* Call Stack */}
+                            <div className={`w-1/3 min-w-[140px] flex flex-col border-e ${isDarkMode ? 'border-emerald-900/30' : 'border-slate-200'}`}>
+                                <div className={`px-4 py-2 border-b flex items-center gap-2 shrink-0 ${isDarkMode ? 'bg-[#0f281a] border-emerald-900/30' : 'bg-slate-50 border-slate-200'}`}>
+                                    <Layers size={14} className="text-emerald-500" />
+                                    <span className={`text-xs font-mono ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>{t.callStack}</span>
+                                </div>
+                                <div className="flex-1 overflow-y-auto custom-scrollbar font-mono text-sm" dir="ltr">
+                                    {callStack.map((frame, idx) => {
+                                        const isSelected = selectedFrameId === frame.id || (selectedFrameId === null && idx === 0);
+                                        return (
+                                            <button
+                                                key={frame.id}
+                                                onClick={() => setSelectedFrameId(idx === 0 ? null : frame.id)}
+                                                className={`w-full flex justify-between gap-2 px-3 py-1.5 text-left border-b transition-colors ${isDarkMode ? 'border-emerald-900/20' : 'border-slate-100'} ${isSelected ? (isDarkMode ? 'bg-emerald-900/40 text-emerald-300' : 'bg-emerald-50 text-emerald-700') : (isDarkMode ? 'text-slate-300 hover:bg-emerald-900/10' : 'text-slate-700 hover:bg-slate-50')}`}
+                                            >
+                                                <span className="truncate font-semibold">{frame.name}</span>
+                                                <span className="text-xs text-slate-400 shrink-0">:{frame.line}</span>
+                                            </button>
+                                        );
+                                    })}
+                                    {callStack.length === 0 && (
+                                        <div className="p-4 text-center text-slate-400 italic">{t.noFrames}</div>
+                                    )}
+                                </div>
+                            </div>
+
                             {/* Variables Table */}
-                            <div className={`h-1/3 min-h-[100px] flex flex-col border-t ${isDarkMode ? 'bg-[#0a1f13] border-emerald-900/30' : 'bg-white border-slate-200'}`}>
+                            <div className="flex-1 min-w-0 flex flex-col">
                                 <div className={`px-4 py-2 border-b flex items-center gap-2 shrink-0 ${isDarkMode ? 'bg-[#0f281a] border-emerald-900/30' : 'bg-slate-50 border-slate-200'}`}>
                                     <Bug size={14} className="text-amber-500" />
-                                    <span className={`text-xs font-mono ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>{t.variables}</span>
+                                    <button onClick={() => setDebugView('variables')} className={`text-xs font-mono ${debugView === 'variables' ? (isDarkMode ? 'text-slate-200' : 'text-slate-700') : 'text-slate-400 hover:text-emerald-500'}`}>{t.variables}</button>
+                                    {selectedFrame && <span className="text-xs font-mono text-slate-400">({selectedFrame.name})</span>}
+                                    {variables.heap.length > 0 && (
+                                        <button onClick={() => setDebugView('heap')} className={`ms-auto flex items-center gap-1 text-xs font-mono ${debugView === 'heap' ? (isDarkMode ? 'text-slate-200' : 'text-slate-700') : 'text-slate-400 hover:text-emerald-500'}`}>
+                                            <Share2 size={12} className="text-emerald-500" />
+                                            {t.heap} ({variables.heap.filter(cell => !cell.freed).length})
+                                        </button>
+                                    )}
                                 </div>
+                                {debugView === 'heap' && variables.heap.length > 0 ? (
+                                    <HeapView heap={variables.heap} pointers={pointerVariables} isDarkMode={isDarkMode} lang={lang} />
+                                ) : (
                                 <div className="flex-1 p-0 overflow-y-auto custom-scrollbar">
                                     <table className="w-full text-left text-sm font-mono border-collapse" dir="ltr">
                                         <thead className={`text-xs sticky top-0 ${isDarkMode ? 'bg-[#0f281a]/90 text-slate-400' : 'bg-slate-50/90 text-slate-500'}`}>
@@ -740,20 +1151,33 @@ const App: React.FC = () => {
                                                 <th className="p-2 border-b border-inherit w-1/3">{t.value}</th>
                                             </tr>
                                         </thead>
-                                        <tbody>
-                                            {Array.from(variables.entries()).map(([name, val]) => (
-                                                <tr key={name} className={`border-b transition-colors ${isDarkMode ? 'border-emerald-900/20 hover:bg-emerald-900/10' : 'border-slate-100 hover:bg-slate-50'}`}>
-                                                    <td className="p-2 text-emerald-500 font-semibold">{name}</td>
-                                                    <td className="p-2 text-amber-600 text-xs">{val.type}</td>
-                                                    <td className={`p-2 break-all ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{renderValue(val)}</td>
+                                        {variableGroups.filter(group => group.entries.length > 0).map(group => (
+                                            <tbody key={group.id}>
+                                                <tr>
+                                                    <td colSpan={3} className={`px-2 py-1 text-xs font-semibold ${isDarkMode ? 'bg-emerald-900/20 text-emerald-300' : 'bg-emerald-50 text-emerald-700'}`}>{group.title}</td>
                                                 </tr>
-                                            ))}
-                                            {variables.size === 0 && (
+                                                {group.entries.map(({ name, val, isParam }) => (
+                                                    <tr key={name} className={`border-b transition-colors ${isDarkMode ? 'border-emerald-900/20 hover:bg-emerald-900/10' : 'border-slate-100 hover:bg-slate-50'}`}>
+                                                        <td className={`p-2 text-emerald-500 font-semibold ${changedVariables.has(`${group.id}:${name}`) ? changedClass : ''}`}>
+                                                            {name}
+                                                            {isParam && <span className="ms-2 text-[10px] font-normal text-slate-400">{val.aliases ? t.paramByRef : t.param}</span>}
+                                                            {val.isConstant && <span className="ms-2 text-[10px] font-normal text-slate-400">{t.constant}</span>}
+                                                        </td>
+                                                        <td className="p-2 text-amber-600 text-xs">{val.recordType ?? val.pointerType ?? val.type}</td>
+                                                        <td className={`p-2 break-all ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{renderValue(val, `${group.id}:${name}`)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        ))}
+                                        {variableGroups.every(group => group.entries.length === 0) && (
+                                            <tbody>
                                                 <tr><td colSpan={3} className="p-4 text-center text-slate-400 italic">{t.noVars}</td></tr>
-                                            )}
-                                        </tbody>
+                                            </tbody>
+                                        )}
                                     </table>
                                 </div>
+                                )}
+                            </div>
                             </div>
                         </div>
                     </div>
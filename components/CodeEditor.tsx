@@ -1,25 +1,51 @@
 import React, { useRef, useMemo, useState } from 'react';
+import { Diagnostic } from '../types';
 
 // AlgoLang Keywords for Autocomplete
 const KEYWORDS = [
-  'Algorithm', 'Begin', 'End', 'Var', 'Const', 
+  'Algorithm', 'Begin', 'End', 'Var', 'Const', 'Type', 'Record', 'EndRecord', 
   'Integer', 'Real', 'Boolean', 'String', 'Char', 
   'Array', 'Of', 'Function', 'Procedure', 'Return', 
   'If', 'Then', 'Else', 'EndIf', 
   'For', 'To', 'Step', 'Do', 'EndFor', 
-  'While', 'EndWhile', 
-  'Read', 'Write', 
-  'Mod', 'Div', 'And', 'Or', 'Not', 'True', 'False',
+  'While', 'EndWhile', 'Repeat', 'Until', 
+  'Case', 'EndCase', 
+  'Read', 'Write', 'Allocate', 'Free',
+  'Assert', 'Test', 'EndTest',
+  'File', 'Assign', 'Reset', 'Rewrite', 'Append', 'Close', 'EOF',
+  'Abs', 'Sqrt', 'Power', 'Trunc', 'Round', 'Floor', 'Ceil', 'Sin', 'Cos', 'Exp', 'Ln', 'Min', 'Max', 'Random', 'Randomize',
+  'Length', 'SubString', 'Find', 'Concat', 'Upper', 'Lower', 'Ord', 'Chr', 'ToString', 'ToInteger', 'ToReal',
+  'Mod', 'Div', 'And', 'Or', 'Not', 'True', 'False', 'Nil',
   // C Keywords (Basic)
   'int', 'float', 'char', 'void', 'return', 'include', 'stdio', 'printf', 'scanf', 'for', 'while', 'if', 'else', 'main'
 ];
 
+const NO_ERRORS: Diagnostic[] = [];
+
+type ColumnRange = [number, number]; // 0-based, end exclusive
+
+// Cuts a highlighted piece of a line where error ranges start and end, so the underline matches the span exactly
+const splitByRanges = (text: string, offset: number, ranges: ColumnRange[]): { text: string, underline: boolean }[] => {
+  const cuts = new Set([0, text.length]);
+  for (const [start, end] of ranges) {
+    if (start > offset && start < offset + text.length) cuts.add(start - offset);
+    if (end > offset && end < offset + text.length) cuts.add(end - offset);
+  }
+  const points = Array.from(cuts).sort((a, b) => a - b);
+  return points.slice(0, -1).map((from, i) => {
+    const at = offset + from;
+    return { text: text.slice(from, points[i + 1]), underline: ranges.some(([start, end]) => at >= start && at < end) };
+  });
+};
+
 interface CodeEditorProps {
   value: string;
   onChange: (value: string) => void;
   breakpoints: Set<number>;
   onToggleBreakpoint: (line: number) => void;
   activeLine: number | null;
+  errors?: Diagnostic[]; // Highlighted lines, with the messages as a gutter tooltip
+  onCursorLineChange?: (line: number) => void;
   className?: string;
   isDarkMode: boolean;
 }
@@ -30,6 +56,8 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
     breakpoints, 
     onToggleBreakpoint,
     activeLine,
+    errors = NO_ERRORS,
+    onCursorLineChange,
     className = '',
     isDarkMode
 }) => {
@@ -97,6 +125,13 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
       setShowSuggestions(false);
   };
 
+  // Report the caret line so the debugger can "Run to Cursor"
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+      if (!onCursorLineChange) return;
+      const textarea = e.currentTarget;
+      onCursorLineChange(textarea.value.slice(0, textarea.selectionStart).split('\n').length);
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
       const newVal = e.target.value;
       onChange(newVal);
@@ -161,13 +196,33 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
   };
 
   // Process Lines for Rendering
+  const errorMessages = useMemo(() => {
+    const byLine = new Map<number, string[]>();
+    for (const error of errors) byLine.set(error.line, [...(byLine.get(error.line) ?? []), error.message]);
+    return byLine;
+  }, [errors]);
+
+  const errorRanges = useMemo(() => {
+    const byLine = new Map<number, ColumnRange[]>();
+    for (const { span } of errors) {
+      if (!span) continue;
+      const range: ColumnRange = [span.column - 1, span.endLine === span.line ? span.endColumn - 1 : Infinity];
+      byLine.set(span.line, [...(byLine.get(span.line) ?? []), range]);
+    }
+    return byLine;
+  }, [errors]);
+
   const renderedLines = useMemo(() => {
       return value.split('\n').map((line, i) => {
          // Mixed Regex for Algo and C syntax highlighting
-         const tokens = line.split(/((?:\/\/.*)|(?:\/\*[\s\S]*?\*\/)|(?:#include.*)|(?:\{[\s\S]*?\})|(?:"(?:[^"\\]|\\.)*")|(?:'(?:[^'\\]|\\.)*')|\b(?:Algorithm|Begin|End|Var|Const|If|Then|Else|EndIf|For|To|Step|Do|EndFor|While|EndWhile|Read|Write|Function|Procedure|Return)\b|\b(?:int|float|char|void|double|long|return|printf|scanf|if|else|while|for)\b|\b(?:Integer|Real|Boolean|String|Character|Array|Of|Mod|Div|And|Or|Not|True|False)\b|\b\d+(?:\.\d+)?\b|[+\-*/←:\[\](),=<>{}%;&]|:=|<-)/gi);
+         const tokens = line.split(/((?:\/\/.*)|(?:\/\*[\s\S]*?\*\/)|(?:#include.*)|(?:\{[\s\S]*?\})|(?:"(?:[^"\\]|\\.)*")|(?:'(?:[^'\\]|\\.)*')|\b(?:Algorithm|Begin|End|Var|Const|Type|Record|EndRecord|If|Then|Else|EndIf|For|To|Step|Do|EndFor|While|EndWhile|Repeat|Until|Case|EndCase|Read|Write|Allocate|Free|Assert|Test|EndTest|Assign|Reset|Rewrite|Append|Close|EOF|Function|Procedure|Return)\b|\b(?:int|float|char|void|double|long|return|printf|scanf|if|else|while|for)\b|\b(?:Integer|Real|Boolean|String|Character|Char|File|Array|Of|Mod|Div|And|Or|Not|True|False|Nil)\b|\b\d+(?:\.\d+)?\b|[+\-*/←:\[\](),=<>{}%;&]|:=|<-)/gi);
          
+         const ranges = errorRanges.get(i + 1) ?? [];
+         let offset = 0;
          const renderedTokens = tokens.map((part, idx) => {
             if (!part) return null;
+            const partOffset = offset;
+            offset += part.length;
             let colorClass = isDarkMode ? "text-slate-200" : "text-slate-800"; 
             
             // Comments (Algo // and C // or #include)
@@ -177,13 +232,13 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
             else if (/^["']/.test(part)) colorClass = isDarkMode ? "text-green-400" : "text-green-600"; 
             
             // Algo Keywords
-            else if (/^(Algorithm|Begin|End|Var|Const|If|Then|Else|EndIf|For|To|Step|Do|EndFor|While|EndWhile|Read|Write|Function|Procedure|Return)$/i.test(part)) colorClass = isDarkMode ? "text-purple-400 font-bold" : "text-purple-700 font-bold";
+            else if (/^(Algorithm|Begin|End|Var|Const|Type|Record|EndRecord|If|Then|Else|EndIf|For|To|Step|Do|EndFor|While|EndWhile|Repeat|Until|Case|EndCase|Read|Write|Allocate|Free|Assert|Test|EndTest|Assign|Reset|Rewrite|Append|Close|EOF|Function|Procedure|Return)$/i.test(part)) colorClass = isDarkMode ? "text-purple-400 font-bold" : "text-purple-700 font-bold";
             
             // C Keywords
             else if (/^(int|float|char|void|double|long|return|printf|scanf|if|else|while|for)$/.test(part)) colorClass = isDarkMode ? "text-blue-400 font-bold" : "text-blue-700 font-bold";
 
             // Types & Bools
-            else if (/^(Integer|Real|Boolean|String|Character|Array|Of|Mod|Div|And|Or|Not|True|False)$/i.test(part)) colorClass = isDarkMode ? "text-amber-400" : "text-amber-600 font-semibold";
+            else if (/^(Integer|Real|Boolean|String|Character|Char|File|Array|Of|Mod|Div|And|Or|Not|True|False|Nil)$/i.test(part)) colorClass = isDarkMode ? "text-amber-400" : "text-amber-600 font-semibold";
             
             // Numbers
             else if (/^\d/.test(part)) colorClass = isDarkMode ? "text-blue-300" : "text-blue-600";
@@ -191,18 +246,24 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
             // Operators & Punctuation
             else if (/^[+\-*/←:\[\](),=<>{}%;&]|:=|<-/.test(part)) colorClass = isDarkMode ? "text-pink-400" : "text-red-500";
             
+            if (ranges.length > 0) {
+                return splitByRanges(part, partOffset, ranges).map((piece, j) => (
+                    <span key={`${idx}-${j}`} className={piece.underline ? `${colorClass} underline decoration-wavy decoration-red-500` : colorClass}>{piece.text}</span>
+                ));
+            }
             return <span key={idx} className={colorClass}>{part}</span>;
          });
 
          const isActive = activeLine === i + 1;
+         const isError = errorMessages.has(i + 1);
 
          return (
-             <div key={i} className={`px-4 h-6 w-full whitespace-pre ${isActive ? (isDarkMode ? 'bg-emerald-900/40' : 'bg-yellow-200/50') : ''}`}>
+             <div key={i} className={`px-4 h-6 w-full whitespace-pre ${isActive ? (isDarkMode ? 'bg-emerald-900/40' : 'bg-yellow-200/50') : isError ? (isDarkMode ? 'bg-red-900/40' : 'bg-red-100') : ''}`}>
                  {renderedTokens.length > 0 ? renderedTokens : <br/>}
              </div>
          );
       });
-  }, [value, activeLine, isDarkMode]);
+  }, [value, activeLine, errorMessages, errorRanges, isDarkMode]);
 
   return (
     <div className={`relative flex w-full h-full overflow-hidden ${isDarkMode ? 'bg-[#0a1f13]' : 'bg-white'} ${className}`}>
@@ -215,11 +276,14 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
                 const lineNum = i + 1;
                 const hasBreakpoint = breakpoints.has(lineNum);
                 const isActive = activeLine === lineNum;
+                const messages = errorMessages.get(lineNum);
+                const isError = messages !== undefined;
                 return (
                     <div 
                         key={lineNum} 
-                        className={`px-2 cursor-pointer h-6 relative ${isDarkMode ? 'hover:bg-emerald-900/20' : 'hover:bg-slate-200'} ${isActive ? (isDarkMode ? 'text-emerald-400 font-bold' : 'text-blue-700 font-bold') : ''}`}
+                        className={`px-2 cursor-pointer h-6 relative ${isDarkMode ? 'hover:bg-emerald-900/20' : 'hover:bg-slate-200'} ${isActive ? (isDarkMode ? 'text-emerald-400 font-bold' : 'text-blue-700 font-bold') : isError ? 'text-red-500 font-bold' : ''}`}
                         onClick={() => onToggleBreakpoint(lineNum)}
+                        title={messages?.join('\n')}
                     >
                         {lineNum}
                         {hasBreakpoint && (
@@ -250,6 +314,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
                 onChange={handleChange}
                 onKeyDown={handleKeyDown}
                 onScroll={handleScroll}
+                onSelect={handleSelect}
                 spellCheck={false}
                 autoCapitalize="none"
                 autoComplete="off"
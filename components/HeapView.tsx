@@ -0,0 +1,149 @@
+import React from 'react';
+import { HeapCellInfo } from '../types';
+import { TRANSLATIONS } from '../constants';
+
+export interface PointerVariable {
+  key: string; // Unique across frames, since recursive calls repeat names
+  name: string;
+  value: number | null;
+}
+
+interface HeapViewProps {
+  heap: HeapCellInfo[];
+  pointers: PointerVariable[]; // Pointer variables in scope, drawn on the left with arrows into the heap
+  isDarkMode: boolean;
+  lang: 'en' | 'ar';
+}
+
+const PADDING = 12;
+const POINTER_WIDTH = 110;
+const POINTER_HEIGHT = 26;
+const CELL_WIDTH = 150;
+const HEADER_HEIGHT = 22;
+const ROW_HEIGHT = 20;
+const GAP_X = 48;
+const GAP_Y = 28;
+const COLUMNS = 3;
+
+interface Box {
+  x: number;
+  y: number;
+  height: number;
+}
+
+const formatField = (value: any): string => {
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (Array.isArray(value)) return `[${value.map(formatField).join(', ')}]`;
+  if (value !== null && typeof value === 'object') return '{…}';
+  return String(value);
+};
+
+// A curve from a pointer's dot to the left edge of the cell it points to. Arrows into a cell
+// further left loop around underneath instead of crossing the cells in between.
+const arrowPath = (x1: number, y1: number, target: Box): string => {
+  const x2 = target.x;
+  const y2 = target.y + HEADER_HEIGHT / 2;
+  if (x2 > x1) return `M ${x1} ${y1} C ${x1 + GAP_X / 2} ${y1}, ${x2 - GAP_X / 2} ${y2}, ${x2} ${y2}`;
+  const below = Math.max(y1, target.y + target.height) + GAP_Y / 2;
+  return `M ${x1} ${y1} C ${x1 + GAP_X} ${below}, ${x2 - GAP_X} ${below}, ${x2} ${y2}`;
+};
+
+// Draws every allocated cell as a box of fields, with an arrow for each pointer,
+// so a linked structure can be watched while it is built
+export const HeapView: React.FC<HeapViewProps> = ({ heap, pointers, isDarkMode, lang }) => {
+  const t = TRANSLATIONS[lang];
+
+  if (heap.length === 0) {
+    return <div className="p-4 text-center text-slate-400 italic text-sm">{t.noHeap}</div>;
+  }
+
+  // Cells fill rows of COLUMNS in allocation order, each row as tall as its tallest cell
+  const left = pointers.length > 0 ? PADDING + POINTER_WIDTH + GAP_X : PADDING;
+  const boxes = new Map<number, Box>();
+  let rowTop = PADDING;
+  for (let start = 0; start < heap.length; start += COLUMNS) {
+    const row = heap.slice(start, start + COLUMNS);
+    row.forEach((cell, i) => {
+      boxes.set(cell.address, { x: left + i * (CELL_WIDTH + GAP_X), y: rowTop, height: HEADER_HEIGHT + cell.fields.length * ROW_HEIGHT });
+    });
+    rowTop += Math.max(...row.map(cell => boxes.get(cell.address)!.height)) + GAP_Y;
+  }
+  const width = left + Math.min(heap.length, COLUMNS) * (CELL_WIDTH + GAP_X);
+  const height = Math.max(rowTop, PADDING + pointers.length * (POINTER_HEIGHT + 10) + GAP_Y);
+
+  const stroke = isDarkMode ? '#34d399' : '#059669';
+  const dangling = '#ef4444';
+  const border = isDarkMode ? '#065f46' : '#cbd5e1';
+  const fill = isDarkMode ? '#0f281a' : '#ffffff';
+  const headerFill = isDarkMode ? '#064e3b' : '#ecfdf5';
+  const text = isDarkMode ? '#e2e8f0' : '#334155';
+  const muted = '#94a3b8';
+
+  const arrows: { key: string, d: string, freed: boolean }[] = [];
+  const addArrow = (key: string, x: number, y: number, address: number | null) => {
+    const target = address === null ? undefined : boxes.get(address);
+    if (!target) return;
+    arrows.push({ key, d: arrowPath(x, y, target), freed: heap.find(cell => cell.address === address)!.freed });
+  };
+
+  return (
+    <div className="flex-1 overflow-auto custom-scrollbar" dir="ltr">
+      <svg width={width} height={height} className="font-mono text-xs">
+        <defs>
+          <marker id="heap-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={stroke} />
+          </marker>
+          <marker id="heap-arrow-dangling" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={dangling} />
+          </marker>
+        </defs>
+
+        {pointers.map((pointer, i) => {
+          const y = PADDING + i * (POINTER_HEIGHT + 10);
+          const dotX = PADDING + POINTER_WIDTH - 14;
+          addArrow(pointer.key, dotX, y + POINTER_HEIGHT / 2, pointer.value);
+          return (
+            <g key={pointer.key}>
+              <rect x={PADDING} y={y} width={POINTER_WIDTH} height={POINTER_HEIGHT} rx={4} fill={fill} stroke={border} />
+              <text x={PADDING + 8} y={y + 17} fill={stroke} fontWeight="bold">{pointer.name}</text>
+              {pointer.value === null
+                ? <text x={dotX} y={y + 17} fill={muted} textAnchor="middle">Nil</text>
+                : <circle cx={dotX} cy={y + POINTER_HEIGHT / 2} r={3.5} fill={stroke} />}
+            </g>
+          );
+        })}
+
+        {heap.map(cell => {
+          const box = boxes.get(cell.address)!;
+          return (
+            <g key={cell.address} opacity={cell.freed ? 0.45 : 1}>
+              <rect x={box.x} y={box.y} width={CELL_WIDTH} height={box.height} rx={4} fill={fill} stroke={cell.freed ? dangling : border} strokeDasharray={cell.freed ? '4 3' : undefined} />
+              <rect x={box.x} y={box.y} width={CELL_WIDTH} height={HEADER_HEIGHT} rx={4} fill={headerFill} />
+              <text x={box.x + 8} y={box.y + 15} fill={text}>@{cell.address} : {cell.type}</text>
+              {cell.freed && <text x={box.x + CELL_WIDTH - 8} y={box.y + 15} fill={dangling} textAnchor="end">{t.freed}</text>}
+              {cell.fields.map((field, i) => {
+                const y = box.y + HEADER_HEIGHT + i * ROW_HEIGHT;
+                const valueX = box.x + CELL_WIDTH - 12;
+                if (field.isPointer) addArrow(`${cell.address}.${field.name}`, valueX, y + ROW_HEIGHT / 2, field.value);
+                return (
+                  <g key={field.name || i}>
+                    <line x1={box.x} y1={y} x2={box.x + CELL_WIDTH} y2={y} stroke={border} />
+                    {field.name && <text x={box.x + 8} y={y + 14} fill={muted}>{field.name}</text>}
+                    {field.isPointer && field.value !== null
+                      ? <circle cx={valueX} cy={y + ROW_HEIGHT / 2} r={3.5} fill={stroke} />
+                      : <text x={valueX + 4} y={y + 14} fill={field.isPointer ? muted : text} textAnchor="end">{field.isPointer ? 'Nil' : formatField(field.value)}</text>}
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+
+        {arrows.map(arrow => (
+          <path key={arrow.key} d={arrow.d} fill="none" stroke={arrow.freed ? dangling : stroke} strokeWidth={1.5}
+            strokeDasharray={arrow.freed ? '4 3' : undefined} markerEnd={`url(#${arrow.freed ? 'heap-arrow-dangling' : 'heap-arrow'})`} />
+        ))}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { TRANSLATIONS } from '../constants';
+
+export interface OutputCheck {
+  name: string; // Run configuration the output is checked against
+  expected: string[];
+  actual: string[];
+}
+
+// Trailing spaces and blank lines at the end are invisible in the terminal, so they never count as a difference
+const normalize = (lines: string[]): string[] => {
+  const trimmed = lines.map(line => line.trimEnd());
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1] === '') trimmed.pop();
+  return trimmed;
+};
+
+// Line by line, every line that differs shows what was expected and what the program wrote
+export const OutputDiff: React.FC<{ check: OutputCheck, lang: 'en' | 'ar' }> = ({ check, lang }) => {
+  const t = TRANSLATIONS[lang];
+  const expected = normalize(check.expected);
+  const actual = normalize(check.actual);
+  const rows: { line: number, expected?: string, actual?: string }[] = [];
+  for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+    if (expected[i] !== actual[i]) rows.push({ line: i + 1, expected: expected[i], actual: actual[i] });
+  }
+
+  if (rows.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-emerald-400 bg-emerald-900/10 p-2 rounded mt-2 border border-emerald-900/20" dir={lang === 'ar' ? 'rtl' : 'ltr'}>
+        <CheckCircle2 size={16} className="shrink-0" />
+        <span>{t.outputMatches} "{check.name}"</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-red-400 bg-red-900/10 p-2 rounded mt-2 border border-red-900/20 space-y-1">
+      <div className="flex items-center gap-2" dir={lang === 'ar' ? 'rtl' : 'ltr'}>
+        <XCircle size={16} className="shrink-0" />
+        <span>{t.outputDiffers} "{check.name}"</span>
+        <span className="text-xs text-slate-400 ms-auto" dir="ltr">- {t.expected} &nbsp;+ {t.actual}</span>
+      </div>
+      <pre className="text-xs whitespace-pre-wrap break-words" dir="ltr">
+        {rows.map(row => (
+          <React.Fragment key={row.line}>
+            <span className="text-slate-400">{t.line} {row.line}</span>{'\n'}
+            <span className="text-emerald-400">- {row.expected ?? `(${t.noLine})`}</span>{'\n'}
+            <span className="text-red-300">+ {row.actual ?? `(${t.noLine})`}</span>{'\n'}
+          </React.Fragment>
+        ))}
+      </pre>
+    </div>
+  );
+};
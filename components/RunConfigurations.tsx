@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { RunConfiguration } from '../types';
+import { TRANSLATIONS } from '../constants';
+
+interface RunConfigurationsProps {
+  configurations: RunConfiguration[];
+  selectedId: string | null; // null runs with the console, typing each input
+  onSelect: (id: string | null) => void;
+  onSave: (configuration: RunConfiguration) => void;
+  onDelete: (id: string) => void;
+  lastOutput: string[]; // What the last run wrote, to adopt as the expected output
+  isDarkMode: boolean;
+  lang: 'en' | 'ar';
+}
+
+// The configuration being edited, with its lines as the text of the two text areas
+interface Draft {
+  id: string | null;
+  name: string;
+  input: string;
+  expectedOutput: string;
+}
+
+const toLines = (text: string): string[] => {
+  const lines = text.split(/\r?\n/);
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// Run toolbar control: picks the configuration the next run uses, and creates, edits or deletes them in a popover
+export const RunConfigurations: React.FC<RunConfigurationsProps> = ({ configurations, selectedId, onSelect, onSave, onDelete, lastOutput, isDarkMode, lang }) => {
+  const t = TRANSLATIONS[lang];
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const selected = configurations.find(configuration => configuration.id === selectedId);
+
+  const edit = (configuration?: RunConfiguration) => setDraft(configuration
+    ? { id: configuration.id, name: configuration.name, input: configuration.input.join('\n'), expectedOutput: configuration.expectedOutput?.join('\n') ?? '' }
+    : { id: null, name: `${t.runConfiguration} ${configurations.length + 1}`, input: '', expectedOutput: '' });
+
+  const save = () => {
+    if (!draft) return;
+    const expectedOutput = toLines(draft.expectedOutput);
+    const configuration: RunConfiguration = {
+      id: draft.id ?? Date.now().toString(),
+      name: draft.name.trim() || `${t.runConfiguration} ${configurations.length + 1}`,
+      input: toLines(draft.input),
+      expectedOutput: expectedOutput.length > 0 ? expectedOutput : undefined
+    };
+    onSave(configuration);
+    onSelect(configuration.id);
+    setDraft(null);
+  };
+
+  const remove = () => {
+    if (!draft?.id) return;
+    onDelete(draft.id);
+    if (selectedId === draft.id) onSelect(null);
+    setDraft(null);
+  };
+
+  const buttonClass = `p-2 rounded-md transition-colors disabled:opacity-30 ${isDarkMode ? 'text-emerald-400 hover:bg-emerald-900/50' : 'text-emerald-700 hover:bg-emerald-50'}`;
+  const fieldClass = `mt-1 w-full px-2 py-1 rounded border font-mono text-sm outline-none focus:border-emerald-500 ${isDarkMode ? 'bg-[#0a1f13] border-emerald-900/50 text-slate-200' : 'bg-slate-50 border-slate-200 text-slate-800'}`;
+  const labelClass = isDarkMode ? 'text-slate-400' : 'text-slate-500';
+
+  return (
+    <div className="relative hidden sm:flex items-center">
+      <select
+        value={selectedId ?? ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        title={t.runConfiguration}
+        className={`max-w-[140px] px-2 py-1 rounded-md border text-xs outline-none ${isDarkMode ? 'bg-[#0a1f13] border-emerald-900/50 text-slate-300' : 'bg-white border-slate-200 text-slate-600'}`}
+      >
+        <option value="">{t.consoleInput}</option>
+        {configurations.map(configuration => <option key={configuration.id} value={configuration.id}>{configuration.name}</option>)}
+      </select>
+      <button onClick={() => edit(selected)} disabled={!selected} title={t.editRunConfiguration} className={buttonClass}>
+        <Pencil size={14} />
+      </button>
+      <button onClick={() => edit()} title={t.newRunConfiguration} className={buttonClass}>
+        <Plus size={14} />
+      </button>
+
+      {draft && (
+        <div className={`absolute end-0 top-full mt-2 w-72 p-4 rounded-lg shadow-xl border z-50 space-y-3 ${isDarkMode ? 'bg-[#0f281a] border-emerald-900/50' : 'bg-white border-slate-200'}`}>
+          <div className={`text-sm font-bold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{draft.id ? t.editRunConfiguration : t.newRunConfiguration}</div>
+          <label className="block text-xs">
+            <span className={labelClass}>{t.name}</span>
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={fieldClass} />
+          </label>
+          <label className="block text-xs">
+            <span className={labelClass}>{t.presetInput}</span>
+            <textarea value={draft.input} onChange={(e) => setDraft({ ...draft, input: e.target.value })} rows={4} className={fieldClass} dir="ltr" />
+          </label>
+          <label className="block text-xs">
+            <span className={labelClass}>{t.expectedOutput}</span>
+            <textarea value={draft.expectedOutput} onChange={(e) => setDraft({ ...draft, expectedOutput: e.target.value })} rows={4} className={fieldClass} dir="ltr" />
+          </label>
+          <button
+            onClick={() => setDraft({ ...draft, expectedOutput: lastOutput.join('\n') })}
+            disabled={lastOutput.length === 0}
+            className={`text-xs disabled:opacity-30 ${isDarkMode ? 'text-emerald-400' : 'text-emerald-700'}`}
+          >
+            {t.useLastOutput}
+          </button>
+          <div className="flex items-center gap-2 pt-1">
+            <button onClick={save} className="px-3 py-1 rounded-md text-xs font-bold bg-emerald-600 hover:bg-emerald-500 text-white">{t.save}</button>
+            <button onClick={() => setDraft(null)} className={`px-3 py-1 rounded-md text-xs ${labelClass}`}>{t.cancel}</button>
+            {draft.id && (
+              <button onClick={remove} title={t.delete} className="ms-auto text-slate-500 hover:text-red-400 transition-colors"><Trash2 size={14} /></button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
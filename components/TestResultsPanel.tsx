@@ -0,0 +1,66 @@
+import React from 'react';
+import { CheckCircle2, XCircle, AlertTriangle, FlaskConical, X } from 'lucide-react';
+import { TestResult } from '../types';
+import { TRANSLATIONS } from '../constants';
+
+interface TestResultsPanelProps {
+  results: TestResult[];
+  isRunning: boolean; // Results still arriving, one per Test block
+  onClose: () => void;
+  isDarkMode: boolean;
+  lang: 'en' | 'ar';
+}
+
+const STATUS_ICONS: Record<TestResult['status'], React.ReactNode> = {
+  passed: <CheckCircle2 size={14} className="text-emerald-500 shrink-0" />,
+  failed: <XCircle size={14} className="text-red-400 shrink-0" />,
+  error: <AlertTriangle size={14} className="text-amber-400 shrink-0" />
+};
+
+// The outcome of Run Tests as a tree: the program's summary at the root, one node per Test
+// block under it, and the failing line and message under each test that did not pass
+export const TestResultsPanel: React.FC<TestResultsPanelProps> = ({ results, isRunning, onClose, isDarkMode, lang }) => {
+  const t = TRANSLATIONS[lang];
+  const passed = results.filter(result => result.status === 'passed').length;
+  const failed = results.length - passed;
+
+  return (
+    <div className={`w-1/3 min-w-[200px] flex flex-col border-s ${isDarkMode ? 'bg-[#0a1f13] border-emerald-900/30' : 'bg-white border-slate-200'}`}>
+      <div className={`px-4 py-2 border-b flex justify-between items-center shrink-0 ${isDarkMode ? 'bg-[#0f281a] border-emerald-900/30' : 'bg-slate-50 border-slate-200'}`}>
+        <div className="flex items-center gap-2">
+          <FlaskConical size={14} className="text-emerald-500" />
+          <span className={`text-xs font-mono ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>{t.tests}</span>
+        </div>
+        <button onClick={onClose} className="text-slate-500 hover:text-red-400 transition-colors"><X size={14} /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 text-sm">
+        {results.length === 0 ? (
+          <div className="p-2 text-center text-slate-400 italic text-xs">{isRunning ? t.testsRunning : t.noTests}</div>
+        ) : (
+          <details open>
+            <summary className={`cursor-pointer flex items-center gap-2 font-semibold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>
+              {failed === 0 ? STATUS_ICONS.passed : STATUS_ICONS.failed}
+              <span>{passed} {t.testsPassed}, {failed} {t.testsFailed}</span>
+            </summary>
+            <ul className="ps-4 mt-1 space-y-1">
+              {results.map(result => (
+                <li key={`${result.line}:${result.name}`}>
+                  <div className={`flex items-center gap-2 ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                    {STATUS_ICONS[result.status]}
+                    <span className="truncate">{result.name}</span>
+                    {result.status === 'error' && <span className="text-[11px] text-amber-400">{t.testError}</span>}
+                  </div>
+                  {result.error && (
+                    <div className="ps-6 text-xs font-mono text-red-400 break-words" dir="ltr">
+                      <span className="text-slate-400">{t.line} {result.error.line}:</span> {result.error.message}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+    </div>
+  );
+};
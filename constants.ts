@@ -89,6 +89,19 @@ export const TRANSLATIONS = {
     pause: "Pause",
     resume: "Resume",
     step: "Step",
+    stepOver: "Step Over",
+    stepInto: "Step Into",
+    stepOut: "Step Out",
+    runToCursor: "Run to Cursor",
+    callStack: "Call Stack",
+    noFrames: "Not running",
+    inExpression: "In expression",
+    line: "line",
+    settings: "Settings",
+    maxSteps: "Maximum steps",
+    maxCallDepth: "Maximum call depth",
+    limitsHint: "A program that goes past either limit stops with a runtime error.",
+    resetDefaults: "Reset to defaults",
     stop: "Stop",
     terminal: "Terminal",
     variables: "Variables",
@@ -113,6 +126,34 @@ export const TRANSLATIONS = {
     type: "Type",
     value: "Value",
     noVars: "No variables in scope",
+    heap: "Heap",
+    noHeap: "Nothing allocated yet",
+    freed: "freed",
+    runTests: "Run Tests",
+    tests: "Tests",
+    noTests: "No Test blocks in this program",
+    testsRunning: "Running tests...",
+    testsPassed: "passed",
+    testsFailed: "failed",
+    testError: "error",
+    runConfiguration: "Configuration",
+    consoleInput: "Type input",
+    newRunConfiguration: "New run configuration",
+    editRunConfiguration: "Edit run configuration",
+    presetInput: "Input, one line per Read",
+    expectedOutput: "Expected output (optional)",
+    useLastOutput: "Use the last run's output",
+    save: "Save",
+    cancel: "Cancel",
+    outputMatches: "Output matches",
+    outputDiffers: "Output differs from",
+    expected: "expected",
+    actual: "actual",
+    noLine: "no line",
+    globals: "Globals",
+    param: "param",
+    paramByRef: "var param",
+    constant: "const",
     previous: "Previous",
     next: "Next",
     enterName: "Name...",
@@ -132,6 +173,19 @@ export const TRANSLATIONS = {
     pause: "إيقاف مؤقت",
     resume: "استكمال",
     step: "خطوة",
+    stepOver: "تخطي",
+    stepInto: "الدخول",
+    stepOut: "الخروج",
+    runToCursor: "التشغيل حتى المؤشر",
+    callStack: "مكدس الاستدعاءات",
+    noFrames: "البرنامج غير قيد التشغيل",
+    inExpression: "في العبارة",
+    line: "السطر",
+    settings: "الإعدادات",
+    maxSteps: "الحد الأقصى للخطوات",
+    maxCallDepth: "الحد الأقصى لعمق الاستدعاءات",
+    limitsHint: "البرنامج الذي يتجاوز أحد الحدين يتوقف مع خطأ تنفيذ.",
+    resetDefaults: "استعادة القيم الافتراضية",
     stop: "إيقاف",
     terminal: "المحطة الطرفية",
     variables: "المتغيرات",
@@ -156,6 +210,34 @@ export const TRANSLATIONS = {
     type: "النوع",
     value: "القيمة",
     noVars: "لا توجد متغيرات في النطاق",
+    heap: "الكومة",
+    noHeap: "لم يُحجز أي شيء بعد",
+    freed: "محرَّرة",
+    runTests: "تشغيل الاختبارات",
+    tests: "الاختبارات",
+    noTests: "لا توجد كتل Test في هذا البرنامج",
+    testsRunning: "جارٍ تشغيل الاختبارات...",
+    testsPassed: "نجح",
+    testsFailed: "فشل",
+    testError: "خطأ",
+    runConfiguration: "إعداد",
+    consoleInput: "إدخال يدوي",
+    newRunConfiguration: "إعداد تشغيل جديد",
+    editRunConfiguration: "تعديل إعداد التشغيل",
+    presetInput: "المدخلات، سطر لكل Read",
+    expectedOutput: "المخرجات المتوقعة (اختياري)",
+    useLastOutput: "استعمال مخرجات آخر تشغيل",
+    save: "حفظ",
+    cancel: "إلغاء",
+    outputMatches: "المخرجات مطابقة لـ",
+    outputDiffers: "المخرجات مختلفة عن",
+    expected: "المتوقع",
+    actual: "الفعلي",
+    noLine: "لا يوجد سطر",
+    globals: "المتغيرات العامة",
+    param: "وسيط",
+    paramByRef: "وسيط بالمرجع",
+    constant: "ثابت",
     previous: "السابق",
     next: "التالي",
     enterName: "الاسم...",
@@ -402,6 +484,52 @@ End`,
        return { success: true };
     }
   },
+  {
+    id: "l7",
+    content: {
+      en: {
+        title: "Repeat ... Until",
+        category: "Control Flow",
+        description: [
+          { type: 'text', value: "A 'Repeat' loop runs its body first and checks the condition after 'Until'. It stops as soon as the condition is true, so the body always runs at least once." },
+          { type: 'code', value: `Repeat
+  x <- x + 1
+Until x = 10` },
+          { type: 'note', variant: 'tip', value: "Unlike 'While', the condition says when to stop, not when to continue." },
+          { type: 'heading', level: 3, value: "Your Task" },
+          { type: 'text', value: "Starting from n = 5, use a Repeat...Until loop to print n and decrease it by 1, until n reaches 0. The output should be 5 4 3 2 1." }
+        ]
+      },
+      ar: {
+        title: "الحلقة Repeat ... Until",
+        category: "التحكم",
+        description: [
+          { type: 'text', value: "حلقة 'Repeat' تنفذ جسمها أولاً ثم تختبر الشرط بعد 'Until'. تتوقف بمجرد أن يصبح الشرط صحيحاً، لذلك يُنفذ الجسم مرة واحدة على الأقل." },
+          { type: 'code', value: `Repeat
+  x <- x + 1
+Until x = 10` },
+          { type: 'note', variant: 'tip', value: "على عكس 'While'، الشرط هنا يحدد متى تتوقف الحلقة وليس متى تستمر." },
+          { type: 'heading', level: 3, value: "مهمتك" },
+          { type: 'text', value: "ابدأ من n = 5، واستخدم حلقة Repeat...Until لطباعة n ثم إنقاصه بـ 1، إلى أن يصل n إلى 0. يجب أن تكون النتيجة 5 4 3 2 1." }
+        ]
+      }
+    },
+    initialCode: `Algorithm Countdown
+Var
+  n : Integer
+Begin
+  n <- 5
+  
+End`,
+    validate: (code, output) => {
+       const lower = code.toLowerCase();
+       if (!lower.includes("repeat") || !lower.includes("until")) 
+         return { success: false, message: { en: "Use a Repeat...Until loop.", ar: "استخدم حلقة Repeat...Until." } };
+       if (!output.map(o => o.trim()).join(" ").includes("5 4 3 2 1")) 
+         return { success: false, message: { en: "The output should count down: 5 4 3 2 1.", ar: "يجب أن تكون النتيجة عداً تنازلياً: 5 4 3 2 1." } };
+       return { success: true };
+    }
+  },
   {
     id: "l6",
     content: {
@@ -491,14 +619,21 @@ End` }
             ["Real", "Decimal numbers", "3.14, -0.001, 5.0"],
             ["String", "Text enclosed in quotes", "\"Hello World\""],
             ["Boolean", "True or False values", "True, False"],
-            ["Character", "A single letter or symbol", "'A', 'z', '@'"]
+            ["Char", "A single letter or symbol", "'A', 'z', '@'"]
           ]},
           { type: 'heading', value: "Declaration Syntax", level: 2 },
           { type: 'code', value: `Var
   count : Integer
   price, tax : Real
   isValid : Boolean
-  message : String` }
+  message : String` },
+          { type: 'heading', value: "Constants", level: 2 },
+          { type: 'text', value: "Values that never change go in a 'Const' section before 'Var'. The type can be written out or left for AlgoLang to infer. A constant cannot be assigned or read into, but it can size an array." },
+          { type: 'code', value: `Const
+  N = 10
+  PI : Real = 3.14159
+Var
+  T : array[N] of Integer` }
         ]
       },
       {
@@ -531,7 +666,10 @@ Write("The value of x is:", x)` },
           { type: 'heading', value: "Read()", level: 3 },
           { type: 'text', value: "Pauses the program and waits for the user to type a value. The value is then stored in the specified variable." },
           { type: 'code', value: `Write("Enter your age:")
-Read(age)` }
+Read(age)` },
+          { type: 'heading', value: "Run Configurations", level: 3 },
+          { type: 'text', value: "To avoid typing the same inputs on every run, create a run configuration with the + button next to Run: give it a name, the input lines (one per Read, in order) and, optionally, the output the program should print. While it is selected, each Read takes the next line; once they run out, the Terminal asks as usual." },
+          { type: 'note', variant: 'tip', value: "When a configuration has an expected output, the Terminal compares it with what the program wrote and lists every line that differs. 'Use the last run's output' fills it in from a run you have checked by hand." }
         ]
       },
       {
@@ -555,7 +693,13 @@ EndFor` },
           { type: 'code', value: `While x > 0 Do
    x <- x - 1
    Write(x)
-EndWhile` }
+EndWhile` },
+          { type: 'heading', value: "Repeat ... Until", level: 2 },
+          { type: 'text', value: "Runs the body first and tests the condition afterwards, so it always runs at least once. The loop stops as soon as the condition becomes true." },
+          { type: 'code', value: `Repeat
+   Write("Enter a positive number:")
+   Read(x)
+Until x > 0` }
         ]
       },
       {
@@ -596,9 +740,130 @@ End` },
 Begin
   grid[0][0] <- 1
   grid[1][2] <- 9
+End` },
+          { type: 'heading', value: "Index Ranges", level: 3 },
+          { type: 'text', value: "Array [10] is indexed from 0 to 9. Write the range instead, like Array [1..10], to choose both bounds; an index outside them stops the program with an error naming the range." },
+          { type: 'code', value: `Var
+  T : Array [1..10] of Integer
+  board : Array [1..8][1..8] of Char
+Begin
+  T[1] <- 5
+  T[10] <- 7
 End` }
         ]
       },
+      {
+        id: "strings",
+        title: "Strings",
+        description: "Reading and changing text character by character.",
+        blocks: [
+          { type: 'text', value: "A String can be indexed like an array of Char, starting at 0: s[0] is the first character and s[Length(s) - 1] the last. Assigning to s[i] replaces one character; it cannot make the string longer, so an index outside 0..Length(s) - 1 stops the program with an error." },
+          { type: 'code', value: `Var
+  s, reversed : String
+  i : Integer
+Begin
+  s <- "hello"
+  s[0] <- 'J'
+  reversed <- ""
+  For i <- Length(s) - 1 To 0 Step -1 Do
+    reversed <- reversed + s[i]
+  EndFor
+  Write(reversed)
+End` },
+          { type: 'text', value: "Arrays of strings and String fields take one more index: names[2][0] is the first letter of names[2]." },
+          { type: 'heading', value: "String Functions", level: 3 },
+          { type: 'table', headers: ["Function", "Result", "Description"], rows: [
+            ["Length(s)", "Integer", "Number of characters: Length(\"abc\") = 3"],
+            ["SubString(s, start, n)", "String", "n characters from index start: SubString(\"algorithm\", 2, 4) = \"gori\""],
+            ["Find(s, part)", "Integer", "Index of the first occurrence of part in s, or -1: Find(\"banana\", \"na\") = 2"],
+            ["Concat(a, b)", "String", "a followed by b, like a + b"],
+            ["Upper(s), Lower(s)", "Same as s", "Letters changed to upper or lower case"],
+            ["Ord(c)", "Integer", "Character code: Ord('A') = 65"],
+            ["Chr(n)", "Char", "Character with code n: Chr(97) = 'a'"],
+            ["ToString(x)", "String", "A number as text, written as Write would"],
+            ["ToInteger(s), ToReal(s)", "Integer, Real", "Text read as a number; an error if it is not one"]
+          ]}
+        ]
+      },
+      {
+        id: "records",
+        title: "Records",
+        description: "Grouping related values under one name.",
+        blocks: [
+          { type: 'text', value: "A record groups fields of different types, like the name and grade of a student. Declare record types in a Type section between Const and Var, then use them like any other type, including in arrays and parameters." },
+          { type: 'code', value: `Type
+  Student = Record
+    name : String
+    grade : Real
+    marks : Array [1..3] of Real
+  EndRecord
+Var
+  s : Student
+  group : Array [1..30] of Student
+Begin
+  s.name <- "Amina"
+  s.marks[1] <- 14
+  group[1] <- s
+  Write(group[1].name)
+End` },
+          { type: 'note', variant: 'info', value: "Assigning a record, or passing it by value, copies every field. Read and Write work on single fields, not whole records." }
+        ]
+      },
+      {
+        id: "pointers",
+        title: "Pointers",
+        description: "Building linked structures on the heap.",
+        blocks: [
+          { type: 'text', value: "A pointer holds the address of a cell on the heap, or Nil when it points nowhere. Write ^Node for a pointer to a Node; inside the Type section a record may point to itself or to a record declared later. Allocate(p) creates a new cell and points p at it, p^ is the cell itself and p^.next one of its fields. Free(p) gives the cell back." },
+          { type: 'code', value: `Type
+  Node = Record
+    value : Integer
+    next : ^Node
+  EndRecord
+Var
+  head, p : ^Node
+Begin
+  head <- Nil
+  Allocate(p)
+  p^.value <- 10
+  p^.next <- head
+  head <- p
+  Write(head^.value)
+  Free(p)
+  p <- Nil
+End` },
+          { type: 'note', variant: 'warning', value: "Following a Nil pointer, or a pointer to a cell that was already freed, stops the program with an error. Free does not change the pointer, so set it to Nil afterwards." },
+          { type: 'note', variant: 'tip', value: "While debugging, open the Heap tab next to Variables to see every cell and an arrow for each pointer." }
+        ]
+      },
+      {
+        id: "files",
+        title: "Files",
+        description: "Reading and writing text files in your project.",
+        blocks: [
+          { type: 'text', value: "A File variable reads or writes a .txt or .dat file in the same folder as your program. Assign(f, \"name.txt\") links it to a file, then open it with Reset (read from the start), Rewrite (empty it, creating it if needed) or Append (add to the end), and Close it when done." },
+          { type: 'list', items: ["Read(f, x) reads the next line into x, one line per variable", "Write(f, a, b) writes a and b on one new line", "EOF(f) is True once every line has been read"] },
+          { type: 'code', value: `Var
+  f, out : File
+  x, sum : Real
+Begin
+  Assign(f, "grades.txt")
+  Reset(f)
+  sum <- 0
+  While Not EOF(f) Do
+    Read(f, x)
+    sum <- sum + x
+  EndWhile
+  Close(f)
+
+  Assign(out, "result.txt")
+  Rewrite(out)
+  Write(out, "Total:", sum)
+  Close(out)
+End` },
+          { type: 'note', variant: 'warning', value: "What you write is saved when the file is closed, and the file then appears in the explorer. Pass a File to a procedure with Var." }
+        ]
+      },
       {
         id: "functions",
         title: "Functions & Procedures",
@@ -615,8 +880,82 @@ EndFunction` },
 Begin
    Write("Hello", name)
 EndProcedure` },
+          { type: 'heading', value: "By-Reference Parameters", level: 3 },
+          { type: 'text', value: "Parameters are copied by default. Mark one with 'Var' (or 'E/S') to pass the variable itself: every change inside the procedure reaches the caller. The argument must be a variable or an array element of exactly the same type." },
+          { type: 'code', value: `Procedure Swap(Var a:Integer, Var b:Integer)
+Var
+   tmp : Integer
+Begin
+   tmp <- a
+   a <- b
+   b <- tmp
+EndProcedure` },
+          { type: 'heading', value: "Array Parameters", level: 3 },
+          { type: 'text', value: "Parameters and results can be arrays or matrices. Leave a size empty with [] to accept any size. An array passed by value (or returned) is copied, so the caller's array is untouched; pass it with 'Var' to sort or fill it in place. Sizes are checked when the call runs." },
+          { type: 'code', value: `Procedure Sort(Var T:Array[] of Integer, n:Integer)
+Function Total(M:Array[3][4] of Real) : Real
+Function Doubled(T:Array[10] of Integer) : Array[10] of Integer` },
           { type: 'text', value: "Note: Functions and Procedures must be defined BEFORE the main 'Begin' block of your algorithm." }
         ]
+      },
+      {
+        id: "builtins",
+        title: "Built-in Functions",
+        description: "Math functions available in every program.",
+        blocks: [
+          { type: 'text', value: "These functions can be called anywhere without declaring them. Integer arguments are accepted wherever a Real is expected. Their names are reserved: declaring your own Function or Procedure with one of them is an error, so pick another name such as MyMax." },
+          { type: 'table', headers: ["Function", "Result", "Description"], rows: [
+            ["Abs(x)", "Same as x", "Absolute value: Abs(-3) = 3"],
+            ["Sqrt(x)", "Real", "Square root; x must not be negative"],
+            ["Power(a, b)", "Real", "a raised to the power b: Power(2, 10) = 1024"],
+            ["Trunc(x)", "Integer", "Drops the decimals: Trunc(-2.7) = -2"],
+            ["Round(x)", "Integer", "Nearest integer, halves away from zero: Round(2.5) = 3"],
+            ["Floor(x)", "Integer", "Largest integer not above x: Floor(-2.1) = -3"],
+            ["Ceil(x)", "Integer", "Smallest integer not below x: Ceil(2.1) = 3"],
+            ["Sin(x), Cos(x)", "Real", "Sine and cosine of an angle in radians"],
+            ["Exp(x)", "Real", "e raised to the power x"],
+            ["Ln(x)", "Real", "Natural logarithm; x must be positive"],
+            ["Min(a, b), Max(a, b)", "Integer if both are", "The smaller or larger of two numbers"],
+            ["Random(n)", "Integer", "A random integer from 0 to n - 1"]
+          ]},
+          { type: 'code', value: `Var
+  hyp : Real
+  dice : Integer
+Begin
+  hyp <- Sqrt(Power(3, 2) + Power(4, 2))
+  Write(Round(hyp))
+  dice <- Random(6) + 1
+End` },
+          { type: 'note', variant: 'info', value: "Random gives the same sequence on every run, which makes programs easy to check. Call Randomize(seed) with another Integer to get a different sequence." }
+        ]
+      },
+      {
+        id: "tests",
+        title: "Assert & Tests",
+        description: "Proving that your functions work.",
+        blocks: [
+          { type: 'text', value: "Assert(condition, \"message\") stops the program with a failure on its line when the condition is False. The message is optional; without it the condition itself is shown." },
+          { type: 'text', value: "Test blocks go with your Functions and Procedures, before the main 'Begin'. Each one has a name in quotes, its own optional 'Var' section, and a body between 'Begin' and 'EndTest'. A normal run ignores them." },
+          { type: 'code', value: `Algorithm Squares
+Function Square(n:Integer) : Integer
+Begin
+  Return n * n
+EndFunction
+
+Test "Square of a negative number"
+Var
+  x : Integer
+Begin
+  x <- Square(-3)
+  Assert(x = 9, "Square(-3) should be 9")
+EndTest
+
+Begin
+  Write(Square(4))
+End` },
+          { type: 'text', value: "The Run Tests button (the flask next to Run) runs every Test block and lists them in the Tests panel beside the Terminal: passed, failed on an Assert, or stopped by another error." },
+          { type: 'note', variant: 'tip', value: "Each test starts from a fresh program: global variables, the heap and files are reset, so one test can never make another one pass or fail." }
+        ]
       }
     ]
   }
@@ -660,14 +999,21 @@ End` }
             ["Real", "الأعداد الحقيقية (بالفاصلة)", "3.14, -0.001, 5.0"],
             ["String", "نصوص محاطة بعلامات تنصيص", "\"Hello World\""],
             ["Boolean", "قيم منطقية (صحيح أو خطأ)", "True, False"],
-            ["Character", "حرف واحد أو رمز", "'A', 'z', '@'"]
+            ["Char", "حرف واحد أو رمز", "'A', 'z', '@'"]
           ]},
           { type: 'heading', value: "صيغة التصريح", level: 2 },
           { type: 'code', value: `Var
   count : Integer
   price, tax : Real
   isValid : Boolean
-  message : String` }
+  message : String` },
+          { type: 'heading', value: "الثوابت", level: 2 },
+          { type: 'text', value: "القيم التي لا تتغير توضع في قسم 'Const' قبل قسم 'Var'. يمكن كتابة النوع صراحة أو تركه لـ AlgoLang لاستنتاجه. لا يمكن إسناد قيمة إلى ثابت أو قراءته، لكن يمكن استخدامه كحجم لمصفوفة." },
+          { type: 'code', value: `Const
+  N = 10
+  PI : Real = 3.14159
+Var
+  T : array[N] of Integer` }
         ]
       },
       {
@@ -700,7 +1046,10 @@ Write("The value of x is:", x)` },
           { type: 'heading', value: "Read()", level: 3 },
           { type: 'text', value: "توقف البرنامج وتنتظر من المستخدم كتابة قيمة. يتم تخزين القيمة في المتغير المحدد." },
           { type: 'code', value: `Write("Enter your age:")
-Read(age)` }
+Read(age)` },
+          { type: 'heading', value: "إعدادات التشغيل", level: 3 },
+          { type: 'text', value: "لتجنب كتابة نفس المدخلات في كل تشغيل، أنشئ إعداد تشغيل بالزر + بجانب زر التشغيل: أعطه اسماً، وأسطر الإدخال (سطر لكل Read بالترتيب)، واختيارياً المخرجات التي يجب أن يطبعها البرنامج. عندما يكون محدداً، تأخذ كل Read السطر التالي؛ وعندما تنفد الأسطر، تطلب المحطة الطرفية الإدخال كالمعتاد." },
+          { type: 'note', variant: 'tip', value: "عندما يحتوي الإعداد على مخرجات متوقعة، تقارنها المحطة الطرفية بما كتبه البرنامج وتعرض كل سطر مختلف. يملؤها خيار 'استعمال مخرجات آخر تشغيل' من تشغيل تحققت منه بنفسك." }
         ]
       },
       {
@@ -724,7 +1073,13 @@ EndFor` },
           { type: 'code', value: `While x > 0 Do
    x <- x - 1
    Write(x)
-EndWhile` }
+EndWhile` },
+          { type: 'heading', value: "الحلقة Repeat ... Until", level: 2 },
+          { type: 'text', value: "تنفذ الجسم أولاً ثم تختبر الشرط، لذلك يعمل مرة واحدة على الأقل. تتوقف الحلقة عندما يصبح الشرط صحيحاً (تكرار ... إلى أن)." },
+          { type: 'code', value: `Repeat
+   Write("Enter a positive number:")
+   Read(x)
+Until x > 0` }
         ]
       },
       {
@@ -765,9 +1120,130 @@ End` },
 Begin
   grid[0][0] <- 1
   grid[1][2] <- 9
+End` },
+          { type: 'heading', value: "مجالات الفهارس", level: 3 },
+          { type: 'text', value: "تُفهرس Array [10] من 0 إلى 9. اكتب المجال بدلاً من ذلك، مثل Array [1..10]، لاختيار الحدين معاً؛ أي فهرس خارجهما يوقف البرنامج بخطأ يذكر المجال." },
+          { type: 'code', value: `Var
+  T : Array [1..10] of Integer
+  board : Array [1..8][1..8] of Char
+Begin
+  T[1] <- 5
+  T[10] <- 7
 End` }
         ]
       },
+      {
+        id: "strings",
+        title: "السلاسل النصية (Strings)",
+        description: "قراءة النص وتعديله حرفاً بحرف.",
+        blocks: [
+          { type: 'text', value: "يمكن فهرسة String مثل مصفوفة من Char بدءاً من 0: s[0] هو الحرف الأول و s[Length(s) - 1] هو الأخير. الإسناد إلى s[i] يستبدل حرفاً واحداً؛ ولا يمكنه إطالة السلسلة، لذا فإن أي فهرس خارج 0..Length(s) - 1 يوقف البرنامج بخطأ." },
+          { type: 'code', value: `Var
+  s, reversed : String
+  i : Integer
+Begin
+  s <- "hello"
+  s[0] <- 'J'
+  reversed <- ""
+  For i <- Length(s) - 1 To 0 Step -1 Do
+    reversed <- reversed + s[i]
+  EndFor
+  Write(reversed)
+End` },
+          { type: 'text', value: "مصفوفات السلاسل وحقول String تأخذ فهرساً إضافياً: names[2][0] هو الحرف الأول من names[2]." },
+          { type: 'heading', value: "دوال السلاسل", level: 3 },
+          { type: 'table', headers: ["الدالة", "النتيجة", "الوصف"], rows: [
+            ["Length(s)", "Integer", "عدد الحروف: Length(\"abc\") = 3"],
+            ["SubString(s, start, n)", "String", "n حرفاً بدءاً من الفهرس start: SubString(\"algorithm\", 2, 4) = \"gori\""],
+            ["Find(s, part)", "Integer", "فهرس أول ظهور لـ part في s، أو -1: Find(\"banana\", \"na\") = 2"],
+            ["Concat(a, b)", "String", "a متبوعة بـ b، مثل a + b"],
+            ["Upper(s), Lower(s)", "نفس نوع s", "تحويل الحروف إلى كبيرة أو صغيرة"],
+            ["Ord(c)", "Integer", "رمز الحرف: Ord('A') = 65"],
+            ["Chr(n)", "Char", "الحرف ذو الرمز n: Chr(97) = 'a'"],
+            ["ToString(x)", "String", "العدد كنص، كما تكتبه Write"],
+            ["ToInteger(s), ToReal(s)", "Integer, Real", "قراءة النص كعدد؛ خطأ إذا لم يكن عدداً"]
+          ]}
+        ]
+      },
+      {
+        id: "records",
+        title: "التسجيلات (Records)",
+        description: "تجميع قيم مترابطة تحت اسم واحد.",
+        blocks: [
+          { type: 'text', value: "يجمع التسجيل حقولاً من أنواع مختلفة، مثل اسم الطالب ومعدله. صرّح بأنواع التسجيلات في قسم Type بين Const و Var، ثم استعملها كأي نوع آخر، بما في ذلك الجداول والوسائط." },
+          { type: 'code', value: `Type
+  Student = Record
+    name : String
+    grade : Real
+    marks : Array [1..3] of Real
+  EndRecord
+Var
+  s : Student
+  group : Array [1..30] of Student
+Begin
+  s.name <- "Amina"
+  s.marks[1] <- 14
+  group[1] <- s
+  Write(group[1].name)
+End` },
+          { type: 'note', variant: 'info', value: "إسناد تسجيل، أو تمريره بالقيمة، ينسخ كل حقوله. تعمل Read و Write على الحقول المفردة، لا على التسجيل كاملاً." }
+        ]
+      },
+      {
+        id: "pointers",
+        title: "المؤشرات (Pointers)",
+        description: "بناء بنى مترابطة في الكومة.",
+        blocks: [
+          { type: 'text', value: "يحمل المؤشر عنوان خلية في الكومة، أو Nil عندما لا يشير إلى أي شيء. اكتب ^Node لمؤشر نحو Node؛ وفي قسم Type يمكن للتسجيل أن يشير إلى نفسه أو إلى تسجيل مصرّح به لاحقاً. تنشئ Allocate(p) خلية جديدة وتجعل p يشير إليها، و p^ هي الخلية نفسها و p^.next أحد حقولها. تُعيد Free(p) الخلية." },
+          { type: 'code', value: `Type
+  Node = Record
+    value : Integer
+    next : ^Node
+  EndRecord
+Var
+  head, p : ^Node
+Begin
+  head <- Nil
+  Allocate(p)
+  p^.value <- 10
+  p^.next <- head
+  head <- p
+  Write(head^.value)
+  Free(p)
+  p <- Nil
+End` },
+          { type: 'note', variant: 'warning', value: "اتباع مؤشر Nil، أو مؤشر نحو خلية حُرّرت، يوقف البرنامج بخطأ. لا تغيّر Free المؤشر، لذا أسند إليه Nil بعدها." },
+          { type: 'note', variant: 'tip', value: "أثناء التنقيح، افتح تبويب الكومة بجانب المتغيرات لرؤية كل خلية وسهم لكل مؤشر." }
+        ]
+      },
+      {
+        id: "files",
+        title: "الملفات",
+        description: "قراءة وكتابة ملفات نصية في مشروعك.",
+        blocks: [
+          { type: 'text', value: "يقرأ متغير من نوع File ملف .txt أو .dat أو يكتب فيه، في نفس مجلد برنامجك. تربطه Assign(f, \"name.txt\") بملف، ثم افتحه بـ Reset (للقراءة من البداية) أو Rewrite (لإفراغه، مع إنشائه عند الحاجة) أو Append (للإضافة في آخره)، وأغلقه بـ Close عند الانتهاء." },
+          { type: 'list', items: ["Read(f, x) تقرأ السطر التالي في x، سطراً لكل متغير", "Write(f, a, b) تكتب a و b في سطر جديد واحد", "EOF(f) تصبح True بعد قراءة كل الأسطر"] },
+          { type: 'code', value: `Var
+  f, out : File
+  x, sum : Real
+Begin
+  Assign(f, "grades.txt")
+  Reset(f)
+  sum <- 0
+  While Not EOF(f) Do
+    Read(f, x)
+    sum <- sum + x
+  EndWhile
+  Close(f)
+
+  Assign(out, "result.txt")
+  Rewrite(out)
+  Write(out, "Total:", sum)
+  Close(out)
+End` },
+          { type: 'note', variant: 'warning', value: "ما تكتبه يُحفظ عند إغلاق الملف، ويظهر الملف حينها في المستكشف. مرّر الملف إلى إجراء باستعمال Var." }
+        ]
+      },
       {
         id: "functions",
         title: "الدوال والإجراءات",
@@ -784,8 +1260,82 @@ EndFunction` },
 Begin
    Write("Hello", name)
 EndProcedure` },
+          { type: 'heading', value: "الوسائط بالمرجع", level: 3 },
+          { type: 'text', value: "تُنسخ الوسائط افتراضياً. ضع 'Var' (أو 'E/S') قبل الوسيط لتمرير المتغير نفسه: كل تغيير داخل الإجراء يصل إلى المستدعي. يجب أن يكون الوسيط متغيراً أو عنصر جدول من النوع نفسه تماماً." },
+          { type: 'code', value: `Procedure Swap(Var a:Integer, Var b:Integer)
+Var
+   tmp : Integer
+Begin
+   tmp <- a
+   a <- b
+   b <- tmp
+EndProcedure` },
+          { type: 'heading', value: "الجداول كوسائط", level: 3 },
+          { type: 'text', value: "يمكن أن تكون الوسائط والنتائج جداول أو مصفوفات. اترك الحجم فارغاً [] لقبول أي حجم. الجدول الممرر بالقيمة (أو المُرجَع) يُنسخ، فلا يتغير جدول المستدعي؛ مرّره مع 'Var' لترتيبه أو ملئه في مكانه. تُفحص الأحجام عند تنفيذ الاستدعاء." },
+          { type: 'code', value: `Procedure Sort(Var T:Array[] of Integer, n:Integer)
+Function Total(M:Array[3][4] of Real) : Real
+Function Doubled(T:Array[10] of Integer) : Array[10] of Integer` },
           { type: 'text', value: "ملاحظة: يجب تعريف الدوال والإجراءات قبل كتلة 'Begin' الرئيسية في الخوارزمية." }
         ]
+      },
+      {
+        id: "builtins",
+        title: "الدوال الجاهزة",
+        description: "دوال رياضية متاحة في كل برنامج.",
+        blocks: [
+          { type: 'text', value: "يمكن استدعاء هذه الدوال في أي مكان دون التصريح عنها. تُقبل الوسائط الصحيحة حيثما يُنتظر عدد حقيقي. أسماؤها محجوزة: التصريح بدالة أو إجراء خاص بك بأحدها خطأ، لذا اختر اسماً آخر مثل MyMax." },
+          { type: 'table', headers: ["الدالة", "النتيجة", "الوصف"], rows: [
+            ["Abs(x)", "نفس نوع x", "القيمة المطلقة: Abs(-3) = 3"],
+            ["Sqrt(x)", "Real", "الجذر التربيعي؛ يجب ألا يكون x سالباً"],
+            ["Power(a, b)", "Real", "a مرفوعاً للقوة b: Power(2, 10) = 1024"],
+            ["Trunc(x)", "Integer", "يحذف الجزء العشري: Trunc(-2.7) = -2"],
+            ["Round(x)", "Integer", "أقرب عدد صحيح، والنصف بعيداً عن الصفر: Round(2.5) = 3"],
+            ["Floor(x)", "Integer", "أكبر عدد صحيح لا يتجاوز x: Floor(-2.1) = -3"],
+            ["Ceil(x)", "Integer", "أصغر عدد صحيح لا يقل عن x: Ceil(2.1) = 3"],
+            ["Sin(x), Cos(x)", "Real", "جيب وجيب تمام زاوية بالراديان"],
+            ["Exp(x)", "Real", "e مرفوعاً للقوة x"],
+            ["Ln(x)", "Real", "اللوغاريتم الطبيعي؛ يجب أن يكون x موجباً"],
+            ["Min(a, b), Max(a, b)", "Integer إذا كانا صحيحين", "الأصغر أو الأكبر بين عددين"],
+            ["Random(n)", "Integer", "عدد صحيح عشوائي من 0 إلى n - 1"]
+          ]},
+          { type: 'code', value: `Var
+  hyp : Real
+  dice : Integer
+Begin
+  hyp <- Sqrt(Power(3, 2) + Power(4, 2))
+  Write(Round(hyp))
+  dice <- Random(6) + 1
+End` },
+          { type: 'note', variant: 'info', value: "تعطي Random نفس المتتالية في كل تنفيذ، مما يسهّل التحقق من البرامج. استدعِ Randomize(seed) بعدد صحيح آخر للحصول على متتالية مختلفة." }
+        ]
+      },
+      {
+        id: "tests",
+        title: "Assert والاختبارات",
+        description: "إثبات أن دوالك تعمل.",
+        blocks: [
+          { type: 'text', value: "توقف Assert(condition, \"message\") البرنامج بفشل في سطرها عندما يكون الشرط False. الرسالة اختيارية؛ وبدونها يُعرض الشرط نفسه." },
+          { type: 'text', value: "توضع كتل Test مع الدوال والإجراءات، قبل 'Begin' الرئيسية. لكل منها اسم بين علامتي تنصيص، وقسم 'Var' اختياري خاص بها، وجسم بين 'Begin' و 'EndTest'. يتجاهلها التشغيل العادي." },
+          { type: 'code', value: `Algorithm Squares
+Function Square(n:Integer) : Integer
+Begin
+  Return n * n
+EndFunction
+
+Test "Square of a negative number"
+Var
+  x : Integer
+Begin
+  x <- Square(-3)
+  Assert(x = 9, "Square(-3) should be 9")
+EndTest
+
+Begin
+  Write(Square(4))
+End` },
+          { type: 'text', value: "يشغّل زر تشغيل الاختبارات (الدورق بجانب زر التشغيل) كل كتل Test ويعرضها في لوحة الاختبارات بجانب المحطة الطرفية: ناجح، أو فاشل عند Assert، أو متوقف بسبب خطأ آخر." },
+          { type: 'note', variant: 'tip', value: "يبدأ كل اختبار من برنامج جديد: تُعاد المتغيرات العامة والكومة والملفات إلى حالتها الأولى، فلا يمكن لاختبار أن يجعل آخر ينجح أو يفشل." }
+        ]
       }
     ]
   }
@@ -34,7 +34,7 @@ Begin
   str2 <- ""
   
   // Write a loop here to copy str1 to str2
-  // Hint: AlgoLang handles strings easily, but try to simulate the logic
+  // Hint: str1[i] is the character at index i (from 0), Length(str1) the number of characters
   str2 <- str1 
   
   Write("Result:", str2)
@@ -0,0 +1,94 @@
+import { formatOutput, formatValue } from './printer';
+
+// Routines every program can call without declaring them. Calls look here before the program's
+// own routines, and the checker rejects a Function or Procedure that reuses one of these names.
+export interface BuiltinSignature {
+  name: string;
+  params: string[]; // Parameter types; 'File' takes a File variable, 'Number' an Integer or a Real, 'Text' a String or a Char
+  returnType?: string; // Absent for procedures; 'Number' is Integer when every argument is, Real otherwise, and 'Text' Char or String alike
+  apply?: (...args: any[]) => any; // Pure functions run here; the rest needs the interpreter's state
+}
+
+// Pascal rounds halves away from zero, where Math.round would take -2.5 to -2
+const roundHalfAway = (x: number) => Math.sign(x) * Math.round(Math.abs(x));
+
+// Positions count from 0, as String indexing does
+const subString = (text: string, start: number, count: number): string => {
+  if (count < 0) throw new Error(`SubString cannot take ${count} characters.`);
+  if (start < 0 || start + count > text.length) {
+    throw new Error(`SubString(${formatValue(text)}, ${start}, ${count}) reaches past the string, whose length is ${text.length}.`);
+  }
+  return text.slice(start, start + count);
+};
+
+const chr = (code: number): string => {
+  if (code < 0 || code > 0xFFFF) throw new Error(`Chr expects a code from 0 to 65535, got ${code}.`);
+  return String.fromCharCode(code);
+};
+
+const toInteger = (text: string): number => {
+  if (!/^\s*[+-]?\d+\s*$/.test(text)) throw new Error(`ToInteger: ${formatValue(text)} is not an integer.`);
+  return parseInt(text, 10);
+};
+
+const toReal = (text: string): number => {
+  const value = Number(text);
+  if (text.trim() === '' || !Number.isFinite(value)) throw new Error(`ToReal: ${formatValue(text)} is not a number.`);
+  return value;
+};
+
+const SIGNATURES: BuiltinSignature[] = [
+  // Math
+  { name: 'Abs', params: ['Number'], returnType: 'Number', apply: Math.abs },
+  { name: 'Sqrt', params: ['Real'], returnType: 'Real', apply: Math.sqrt },
+  { name: 'Power', params: ['Real', 'Real'], returnType: 'Real', apply: Math.pow },
+  { name: 'Trunc', params: ['Real'], returnType: 'Integer', apply: Math.trunc },
+  { name: 'Round', params: ['Real'], returnType: 'Integer', apply: roundHalfAway },
+  { name: 'Floor', params: ['Real'], returnType: 'Integer', apply: Math.floor },
+  { name: 'Ceil', params: ['Real'], returnType: 'Integer', apply: Math.ceil },
+  { name: 'Sin', params: ['Real'], returnType: 'Real', apply: Math.sin },
+  { name: 'Cos', params: ['Real'], returnType: 'Real', apply: Math.cos },
+  { name: 'Exp', params: ['Real'], returnType: 'Real', apply: Math.exp },
+  { name: 'Ln', params: ['Real'], returnType: 'Real', apply: Math.log },
+  { name: 'Min', params: ['Number', 'Number'], returnType: 'Number', apply: Math.min },
+  { name: 'Max', params: ['Number', 'Number'], returnType: 'Number', apply: Math.max },
+  { name: 'Random', params: ['Integer'], returnType: 'Integer' },
+  { name: 'Randomize', params: ['Integer'] },
+
+  // Strings
+  { name: 'Length', params: ['Text'], returnType: 'Integer', apply: (text: string) => text.length },
+  { name: 'SubString', params: ['String', 'Integer', 'Integer'], returnType: 'String', apply: subString },
+  { name: 'Find', params: ['String', 'String'], returnType: 'Integer', apply: (text: string, part: string) => text.indexOf(part) },
+  { name: 'Concat', params: ['String', 'String'], returnType: 'String', apply: (a: string, b: string) => a + b },
+  { name: 'Upper', params: ['Text'], returnType: 'Text', apply: (text: string) => text.toUpperCase() },
+  { name: 'Lower', params: ['Text'], returnType: 'Text', apply: (text: string) => text.toLowerCase() },
+  { name: 'Ord', params: ['Char'], returnType: 'Integer', apply: (c: string) => c.charCodeAt(0) },
+  { name: 'Chr', params: ['Integer'], returnType: 'Char', apply: chr },
+  { name: 'ToString', params: ['Number'], returnType: 'String', apply: formatOutput },
+  { name: 'ToInteger', params: ['String'], returnType: 'Integer', apply: toInteger },
+  { name: 'ToReal', params: ['String'], returnType: 'Real', apply: toReal },
+
+  // Sequential files, see files.ts
+  { name: 'Assign', params: ['File', 'String'] },
+  { name: 'Reset', params: ['File'] },
+  { name: 'Rewrite', params: ['File'] },
+  { name: 'Append', params: ['File'] },
+  { name: 'Close', params: ['File'] },
+  { name: 'EOF', params: ['File'], returnType: 'Boolean' }
+];
+
+export const BUILTINS: Map<string, BuiltinSignature> = new Map(SIGNATURES.map(signature => [signature.name.toLowerCase(), signature]));
+
+// Random starts from this seed on every run, so a program prints the same numbers each time until it calls Randomize
+export const DEFAULT_RANDOM_SEED = 2024;
+
+// mulberry32: small, fast and reproducible from its seed, which is all an exercise needs
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
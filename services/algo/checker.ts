@@ -0,0 +1,691 @@
+import { ASTNode, ArrayBound, TokenType, ProgramNode, ConstDeclNode, RecordTypeNode, VarDeclNode, BlockNode, CaseNode, CaseLabel, FunctionDeclNode, ProcedureDeclNode, Diagnostic, SourceSpan } from '../../types';
+import { formatDimensions, formatExpression, formatValue } from './printer';
+import { BUILTINS, BuiltinSignature } from './builtins';
+
+// A basic type, a record type's declared name or a pointer to either such as ^Node; 'Nil' is the type
+// of the Nil literal. 'Unknown' is the type of anything that already produced a diagnostic, so one
+// mistake isn't reported again by every enclosing expression.
+type ValueType = 'Integer' | 'Real' | 'Boolean' | 'String' | 'Char' | 'Unknown' | (string & {});
+
+interface SymbolInfo {
+  type: ValueType;
+  dims: (ArrayBound | null)[]; // Empty for scalars; null for the open sizes of array parameters
+  constant?: boolean;
+}
+
+// A whole array (or matrix row) used as a value: an argument, an assignment or a Return
+interface ArrayShape {
+  type: ValueType;
+  dims: (ArrayBound | null)[];
+}
+
+const OPERATOR_SYMBOLS: Partial<Record<TokenType, string>> = {
+  [TokenType.PLUS]: '+',
+  [TokenType.MINUS]: '-',
+  [TokenType.MULTIPLY]: '*',
+  [TokenType.DIVIDE]: '/',
+  [TokenType.DIV]: 'Div',
+  [TokenType.MOD]: 'Mod',
+  [TokenType.LESS]: '<',
+  [TokenType.LESS_EQUAL]: '<=',
+  [TokenType.GREATER]: '>',
+  [TokenType.GREATER_EQUAL]: '>=',
+  [TokenType.EQUAL]: '=',
+  [TokenType.NOT_EQUAL]: '<>',
+  [TokenType.AND]: 'And',
+  [TokenType.OR]: 'Or',
+  [TokenType.NOT]: 'Not'
+};
+
+// Semantic analysis between the Parser and the Interpreter: resolves identifiers and checks types,
+// collecting every problem instead of stopping at the first one.
+export class TypeChecker {
+  private diagnostics: Diagnostic[] = [];
+  private functions: Map<string, FunctionDeclNode | ProcedureDeclNode> = new Map();
+  private records: Map<string, RecordTypeNode> = new Map();
+  private globals: Map<string, SymbolInfo> = new Map();
+  private locals: Map<string, SymbolInfo> | null = null;
+  private currentRoutine: FunctionDeclNode | ProcedureDeclNode | null = null;
+
+  public check(program: ProgramNode): Diagnostic[] {
+    this.diagnostics = [];
+    this.functions = new Map();
+    this.records = new Map();
+    this.globals = new Map();
+    this.locals = null;
+    for (const record of program.types) {
+      this.records.set(record.name.toLowerCase(), record);
+      const fields: Set<string> = new Set();
+      for (const field of record.fields) {
+        for (const name of field.names) {
+          if (fields.has(name)) this.report(field.span, `Field '${name}' is already declared in '${record.name}'.`);
+          fields.add(name);
+        }
+        if (this.normalizeType(field.varType) === 'File') this.report(field.span, "A record field cannot be a File.");
+      }
+    }
+    for (const func of program.functions) {
+      const key = func.name.toLowerCase();
+      if (BUILTINS.has(key)) this.report(func.span, `'${func.name}' is a built-in ${BUILTINS.get(key)!.returnType ? 'function' : 'procedure'}; choose another name.`);
+      else if (this.functions.has(key)) this.report(func.span, `'${func.name}' is already declared.`);
+      else this.functions.set(key, func);
+    }
+
+    this.globals = this.declare(program.variables, this.declareConstants(program.constants));
+
+    for (const func of program.functions) {
+      const scope: Map<string, SymbolInfo> = new Map();
+      for (const param of func.params) {
+        if (scope.has(param.name)) this.report(func.span, `Parameter '${param.name}' is already declared.`);
+        if (this.normalizeType(param.type) === 'File' && (!param.byRef || param.dimensions.length > 0)) {
+          this.report(func.span, `File parameter '${param.name}' must be a single File passed with Var.`);
+        }
+        scope.set(param.name, { type: this.normalizeType(param.type), dims: param.dimensions });
+      }
+      if (func.kind === 'FunctionDecl' && this.normalizeType(func.returnType) === 'File') {
+        this.report(func.span, `Function '${func.name}' cannot return a File.`);
+      }
+      this.locals = this.declare(func.variables, scope);
+      this.currentRoutine = func;
+      this.checkBlock(func.body);
+    }
+
+    this.currentRoutine = null;
+    const testNames: Set<string> = new Set();
+    for (const test of program.tests) {
+      if (testNames.has(test.name)) this.report(test.span, `Test "${test.name}" is already declared.`);
+      testNames.add(test.name);
+      this.locals = this.declare(test.variables, new Map());
+      this.checkBlock(test.body);
+    }
+
+    this.locals = null;
+    this.checkBlock(program.body);
+
+    return this.diagnostics.sort((a, b) => a.line - b.line);
+  }
+
+  private report(span: SourceSpan, message: string) {
+    this.diagnostics.push({ line: span.line, message, span });
+  }
+
+  private declareConstants(decls: ConstDeclNode[]): Map<string, SymbolInfo> {
+    const scope: Map<string, SymbolInfo> = new Map();
+    for (const decl of decls) {
+      // Checked before the constant itself is declared, so it can't refer to itself
+      const valueType = this.checkExpression(decl.value);
+      const type = decl.constType ? this.normalizeType(decl.constType) : valueType;
+      if (!this.isAssignable(type, valueType)) {
+        this.report(decl.value.span, `Constant '${decl.name}' is declared ${type} but its value is ${valueType}.`);
+      }
+      if (scope.has(decl.name)) this.report(decl.span, `Constant '${decl.name}' is already declared.`);
+      scope.set(decl.name, { type, dims: [], constant: true });
+      this.globals = scope; // Later constants may use earlier ones
+    }
+    return scope;
+  }
+
+  private declare(decls: VarDeclNode[], scope: Map<string, SymbolInfo>): Map<string, SymbolInfo> {
+    for (const decl of decls) {
+      for (const name of decl.names) {
+        if (scope.has(name)) this.report(decl.span, `Variable '${name}' is already declared.`);
+        scope.set(name, { type: this.normalizeType(decl.varType), dims: decl.dimensions });
+      }
+      if (this.normalizeType(decl.varType) === 'File' && decl.dimensions.length > 0) {
+        this.report(decl.span, "Arrays of files are not supported; declare one File variable per file.");
+      }
+    }
+    return scope;
+  }
+
+  private normalizeType(typeStr: string): ValueType {
+    if (typeStr.startsWith('^')) {
+      const target = this.normalizeType(typeStr.slice(1));
+      return target === 'Unknown' ? 'Unknown' : `^${target}`;
+    }
+    switch (typeStr.toLowerCase()) {
+      case 'integer': return 'Integer';
+      case 'real': return 'Real';
+      case 'boolean': return 'Boolean';
+      case 'string': return 'String';
+      case 'char': return 'Char';
+      case 'file': return 'File';
+      default: return this.records.get(typeStr.toLowerCase())?.name ?? 'Unknown';
+    }
+  }
+
+  private lookup(name: string, span: SourceSpan): SymbolInfo | null {
+    const symbol = this.locals?.get(name) ?? this.globals.get(name);
+    if (!symbol) {
+      this.report(span, `Variable '${name}' not declared.`);
+      return null;
+    }
+    return symbol;
+  }
+
+  private isConstant(name: string): boolean {
+    return (this.locals?.get(name) ?? this.globals.get(name))?.constant === true;
+  }
+
+  private isNumeric(type: ValueType): boolean {
+    return type === 'Integer' || type === 'Real';
+  }
+
+  private isText(type: ValueType): boolean {
+    return type === 'String' || type === 'Char';
+  }
+
+  private isPointer(type: ValueType): boolean {
+    return type.startsWith('^');
+  }
+
+  // A File variable, as the first argument of Read, Write or a file routine. Quiet, since the argument is checked again.
+  private isFile(node: ASTNode | undefined): boolean {
+    return node?.kind === 'Identifier' && (this.locals?.get(node.name) ?? this.globals.get(node.name))?.type === 'File';
+  }
+
+  // Integer widens to Real and Char to String, but never the other way round: use Div for integer division
+  private isAssignable(target: ValueType, value: ValueType): boolean {
+    if (target === 'Unknown' || value === 'Unknown' || target === value) return true;
+    if (target === 'Real' && value === 'Integer') return true;
+    if (this.isPointer(target) && value === 'Nil') return true;
+    return target === 'String' && value === 'Char';
+  }
+
+  private checkBlock(block: BlockNode) {
+    for (const stmt of block.statements) this.checkStatement(stmt);
+  }
+
+  private checkStatement(stmt: ASTNode) {
+    switch (stmt.kind) {
+      case 'IO': {
+        // A File first sends the values to that file instead of the console
+        const args = this.isFile(stmt.args[0]) ? stmt.args.slice(1) : stmt.args;
+        if (args.length === 0 && args !== stmt.args) {
+          this.report(stmt.span, stmt.type === 'Read' ? "Read from a file needs at least one variable to read into." : "Write to a file needs at least one value to write.");
+        }
+        if (stmt.type === 'Write') {
+          for (const arg of args) {
+            const type = this.checkExpression(arg);
+            if (type === 'File') {
+              this.report(arg.span, "Write cannot print a File; pass it first to write into it.");
+            } else if (this.records.has(type.toLowerCase())) {
+              this.report(arg.span, `Write cannot print a whole ${type} record; write its fields instead.`);
+            } else if (this.isPointer(type) || type === 'Nil') {
+              this.report(arg.span, `Write cannot print a pointer; write the value it points to, as in p^.`);
+            }
+          }
+        } else {
+          for (const arg of args) {
+            const type = this.checkReference(arg);
+            if (arg.kind === 'Identifier' && this.isConstant(arg.name)) {
+              this.report(arg.span, `Cannot Read into constant '${arg.name}'.`);
+            } else if (type === 'File') {
+              this.report(arg.span, "Read cannot fill a File; pass it first to read from it.");
+            } else if (this.records.has(type.toLowerCase())) {
+              this.report(arg.span, `Read cannot fill a whole ${type} record; read its fields one by one.`);
+            } else if (this.isPointer(type)) {
+              this.report(arg.span, `Read cannot fill a pointer; use Allocate to point it at a new cell.`);
+            }
+          }
+        }
+        break;
+      }
+      case 'Assignment': {
+        const targetNode: ASTNode = typeof stmt.target === 'string'
+          ? { kind: 'Identifier', name: stmt.target, line: stmt.line, span: stmt.span }
+          : stmt.target;
+        const root = this.rootName(targetNode);
+        const name = targetNode.kind === 'FieldAccess' || targetNode.kind === 'Deref' ? formatExpression(targetNode) : root;
+        const targetShape = this.arrayShape(targetNode);
+        if (targetShape) {
+          if (this.isConstant(root)) this.report(stmt.span, `Cannot assign to constant '${name}'.`);
+          this.checkArrayValue(stmt.value, targetShape, (expected, got) => `Cannot assign ${got} to '${name}' of type ${expected}.`);
+          break;
+        }
+        const target = this.checkReference(targetNode);
+        const value = this.checkExpression(stmt.value);
+        if (this.isConstant(root)) {
+          this.report(stmt.span, `Cannot assign to constant '${name}'.`);
+        } else if (target === 'File') {
+          this.report(stmt.span, `Cannot assign to File '${name}'; use Assign(${name}, "name.txt") to choose its file.`);
+        } else if (!this.isAssignable(target, value)) {
+          this.report(stmt.span, `Cannot assign ${value} to '${name}' of type ${target}.`);
+        }
+        break;
+      }
+      case 'If':
+        this.checkCondition(stmt.condition, 'If');
+        this.checkBlock(stmt.thenBranch);
+        if (stmt.elseBranch) this.checkBlock(stmt.elseBranch);
+        break;
+      case 'While':
+        this.checkCondition(stmt.condition, 'While');
+        this.checkBlock(stmt.body);
+        break;
+      case 'Repeat':
+        this.checkBlock(stmt.body);
+        this.checkCondition(stmt.condition, 'Until');
+        break;
+      case 'Case':
+        this.checkCase(stmt);
+        break;
+      case 'For': {
+        const loopVar = this.checkReference({ kind: 'Identifier', name: stmt.variable, line: stmt.line, span: stmt.span });
+        if (this.isConstant(stmt.variable)) {
+          this.report(stmt.span, `Constant '${stmt.variable}' cannot be a loop variable.`);
+        } else if (loopVar !== 'Unknown' && !this.isNumeric(loopVar)) {
+          this.report(stmt.span, `Loop variable '${stmt.variable}' must be numeric, got ${loopVar}.`);
+        }
+        const bounds: [string, ASTNode | undefined][] = [['start', stmt.start], ['end', stmt.end], ['step', stmt.step]];
+        for (const [label, node] of bounds) {
+          if (!node) continue;
+          const type = this.checkExpression(node);
+          if (type === 'Unknown') continue;
+          if (!this.isNumeric(type)) this.report(node.span, `For loop ${label} must be numeric, got ${type}.`);
+          else if (this.isNumeric(loopVar) && !this.isAssignable(loopVar, type)) {
+            this.report(node.span, `For loop ${label} is ${type} but '${stmt.variable}' is ${loopVar}.`);
+          }
+        }
+        this.checkBlock(stmt.body);
+        break;
+      }
+      case 'Call':
+        this.checkCall(stmt.name, stmt.args, stmt.span, false);
+        break;
+      case 'Allocation': {
+        const type = this.checkReference(stmt.target);
+        if (type !== 'Unknown' && !this.isPointer(type)) {
+          this.report(stmt.target.span, `${stmt.type} expects a pointer, but '${formatExpression(stmt.target)}' is ${type}.`);
+        }
+        break;
+      }
+      case 'Assert': {
+        this.checkCondition(stmt.condition, 'Assert');
+        const message = stmt.message ? this.checkExpression(stmt.message) : 'String';
+        if (message !== 'Unknown' && message !== 'String' && message !== 'Char') {
+          this.report(stmt.message!.span, `Assert message must be a String, got ${message}.`);
+        }
+        break;
+      }
+      case 'Return': {
+        const routine = this.currentRoutine;
+        if (routine?.kind === 'FunctionDecl' && routine.returnDimensions.length > 0 && stmt.value) {
+          const expected = { type: this.normalizeType(routine.returnType), dims: routine.returnDimensions };
+          this.checkArrayValue(stmt.value, expected, (expected, got) => `Function '${routine.name}' must return ${expected}, got ${got}.`);
+          break;
+        }
+        const value = stmt.value ? this.checkExpression(stmt.value) : 'Unknown';
+        if (!routine) {
+          this.report(stmt.span, "'Return' is only allowed inside a Function.");
+        } else if (routine.kind === 'ProcedureDecl') {
+          this.report(stmt.span, `Procedure '${routine.name}' cannot return a value.`);
+        } else {
+          const expected = this.normalizeType(routine.returnType);
+          if (!this.isAssignable(expected, value)) {
+            this.report(stmt.value?.span ?? stmt.span, `Function '${routine.name}' must return ${expected}, got ${value}.`);
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  private checkCase(stmt: CaseNode) {
+    const selector = this.checkExpression(stmt.selector);
+    if (selector === 'Real') {
+      this.report(stmt.selector.span, "Case expression cannot be Real; use Integer, Char, String or Boolean.");
+    }
+    const seen: CaseLabel[] = [];
+    for (const branch of stmt.branches) {
+      for (const label of branch.labels) {
+        if (!this.checkCaseLabel(label, selector)) continue;
+        const clash = seen.find(other => this.labelsOverlap(other, label));
+        if (clash) {
+          this.report(label.span, `Duplicate Case label ${this.formatLabel(label)}, already covered on line ${clash.span.line}.`);
+        }
+        seen.push(label);
+      }
+      this.checkBlock(branch.body);
+    }
+    if (stmt.elseBranch) this.checkBlock(stmt.elseBranch);
+  }
+
+  // False for a range that cannot be compared, which is then left out of the overlap check
+  private checkCaseLabel(label: CaseLabel, selector: ValueType): boolean {
+    const type = this.constantType(label.low);
+    if (label.high !== undefined) {
+      if ((type !== 'Integer' && type !== 'Char') || this.constantType(label.high) !== type) {
+        this.report(label.span, `Case range ${this.formatLabel(label)} needs two Integer or two Char bounds.`);
+        return false;
+      }
+      if (label.low > label.high) this.report(label.span, `Case range ${this.formatLabel(label)} is empty.`);
+      // Ranges compare by order, which only Integer and Char selectors have; a String is never between two Chars
+      if (selector !== 'Unknown' && selector !== 'Integer' && selector !== 'Char') {
+        this.report(label.span, `Case range ${this.formatLabel(label)} needs an Integer or Char Case expression, not ${selector}.`);
+        return false;
+      }
+    }
+    if (selector !== 'Unknown' && selector !== 'Real' && !this.isAssignable(selector, type)) {
+      this.report(label.span, `Case label ${this.formatLabel(label)} is ${type} but the Case expression is ${selector}.`);
+    }
+    return true;
+  }
+
+  private labelsOverlap(a: CaseLabel, b: CaseLabel): boolean {
+    if (typeof a.low !== typeof b.low) return false;
+    return a.low <= (b.high ?? b.low) && b.low <= (a.high ?? a.low);
+  }
+
+  private formatLabel(label: CaseLabel): string {
+    return label.high === undefined ? formatValue(label.low) : `${formatValue(label.low)}..${formatValue(label.high)}`;
+  }
+
+  // Type of a value folded by the parser
+  private constantType(value: any): ValueType {
+    if (typeof value === 'string') return value.length === 1 ? 'Char' : 'String';
+    if (typeof value === 'boolean') return 'Boolean';
+    return Number.isInteger(value) ? 'Integer' : 'Real';
+  }
+
+  private checkCondition(node: ASTNode, statement: string) {
+    const type = this.checkExpression(node);
+    if (type !== 'Unknown' && type !== 'Boolean') {
+      this.report(node.span, `${statement} condition must be Boolean, got ${type}.`);
+    }
+  }
+
+  // A variable, array element, record field or pointed-to value that can be read into or assigned to
+  private checkReference(node: ASTNode): ValueType {
+    if (node.kind === 'Deref') return this.resolveReference(node)?.type ?? 'Unknown';
+    if (node.kind !== 'Identifier' && node.kind !== 'ArrayAccess' && node.kind !== 'FieldAccess') return this.checkExpression(node);
+    const shape = this.resolveReference(node);
+    if (!shape) return 'Unknown';
+    if (shape.dims.length > 0) {
+      const indexCount = node.kind === 'Identifier' ? 0 : node.indexes.length;
+      this.reportIndexCount(node, shape.dims.length + indexCount, indexCount);
+      return 'Unknown';
+    }
+    return shape.type;
+  }
+
+  // Type and remaining dimensions of a variable, array element or row, or record field; null once reported
+  private resolveReference(node: ASTNode): ArrayShape | null {
+    let shape: ArrayShape;
+    if (node.kind === 'Identifier' || node.kind === 'ArrayAccess') {
+      const symbol = this.lookup(node.name, node.span);
+      if (!symbol) return null;
+      shape = { type: symbol.type, dims: symbol.dims };
+    } else if (node.kind === 'FieldAccess') {
+      const base = this.resolveReference(node.target);
+      if (!base) return null;
+      const record = this.records.get(base.type.toLowerCase());
+      if (!record || base.dims.length > 0) {
+        this.report(node.span, `'${formatExpression(node.target)}' is not a record, so it has no field '${node.field}'.`);
+        return null;
+      }
+      const field = record.fields.find(decl => decl.names.includes(node.field));
+      if (!field) {
+        this.report(node.span, `Record '${record.name}' has no field '${node.field}'.`);
+        return null;
+      }
+      shape = { type: this.normalizeType(field.varType), dims: field.dimensions };
+    } else if (node.kind === 'Deref') {
+      const base = this.resolveReference(node.target);
+      if (!base) return null;
+      if (!this.isPointer(base.type) || base.dims.length > 0) {
+        this.report(node.span, `'${formatExpression(node.target)}' is not a pointer, so it cannot be followed with '^'.`);
+        return null;
+      }
+      return { type: base.type.slice(1), dims: [] };
+    } else {
+      this.checkExpression(node);
+      return null;
+    }
+    if (node.kind === 'Identifier') return shape;
+
+    this.checkIndexes(node.indexes);
+    // One index past the dimensions of a String picks one of its characters, counted from 0
+    if (shape.type === 'String' && node.indexes.length === shape.dims.length + 1) return { type: 'Char', dims: [] };
+    if (shape.dims.length === 0 && node.indexes.length > 0) {
+      this.report(node.span, `'${this.referenceName(node)}' is not an array.`);
+      return null;
+    }
+    if (node.indexes.length > shape.dims.length) {
+      this.reportIndexCount(node, shape.dims.length, node.indexes.length);
+      return null;
+    }
+    return { type: shape.type, dims: shape.dims.slice(node.indexes.length) };
+  }
+
+  private reportIndexCount(node: ASTNode, dims: number, indexCount: number) {
+    this.report(node.span, `'${this.referenceName(node)}' has ${dims} dimension${dims === 1 ? '' : 's'} but ${indexCount} index${indexCount === 1 ? ' was' : 'es were'} given.`);
+  }
+
+  // What the indexes of a reference apply to: T for T[i], s.marks for s.marks[i]
+  private referenceName(node: ASTNode): string {
+    if (node.kind === 'FieldAccess') return `${formatExpression(node.target)}.${node.field}`;
+    return node.kind === 'Identifier' || node.kind === 'ArrayAccess' ? node.name : formatExpression(node);
+  }
+
+  // The variable a reference starts from: s for s.marks[2], students for students[i].name
+  private rootName(node: ASTNode): string {
+    if (node.kind === 'FieldAccess' || node.kind === 'Deref') return this.rootName(node.target);
+    return node.kind === 'Identifier' || node.kind === 'ArrayAccess' ? node.name : formatExpression(node);
+  }
+
+  private checkIndexes(indexes: ASTNode[]) {
+    for (const index of indexes) {
+      const type = this.checkExpression(index);
+      if (type !== 'Unknown' && type !== 'Integer') {
+        this.report(index.span, `Array index '${formatExpression(index)}' must be Integer, got ${type}.`);
+      }
+    }
+  }
+
+  // The shape of an expression that denotes a whole array: an array variable or field, a matrix
+  // with fewer indexes than dimensions, or a call to a function returning an array. Null otherwise.
+  private arrayShape(node: ASTNode): ArrayShape | null {
+    if (node.kind === 'Identifier' || node.kind === 'ArrayAccess' || node.kind === 'FieldAccess' || node.kind === 'Deref') {
+      // A quiet probe: when this is not a whole array, the caller checks the node again as a value and reports then
+      const mark = this.diagnostics.length;
+      const shape = this.resolveReference(node);
+      if (shape && shape.dims.length > 0) return shape;
+      this.diagnostics.length = mark;
+      return null;
+    }
+    if (node.kind === 'Call') {
+      const funcDef = this.functions.get(node.name.toLowerCase());
+      if (funcDef?.kind !== 'FunctionDecl' || funcDef.returnDimensions.length === 0) return null;
+      this.checkCall(node.name, node.args, node.span, true);
+      return { type: this.normalizeType(funcDef.returnType), dims: funcDef.returnDimensions };
+    }
+    return null;
+  }
+
+  // Element types must match exactly, since the cells are copied or shared as they are. Only sizes
+  // are compared, so [1..10] fits [0..9]. An open size is only known at run time, where the interpreter checks it.
+  private checkArrayValue(node: ASTNode, expected: ArrayShape, message: (expected: string, got: string) => string) {
+    const shape = this.arrayShape(node);
+    if (!shape) {
+      const type = this.checkExpression(node);
+      if (type !== 'Unknown') this.report(node.span, message(this.formatShape(expected), type));
+      return;
+    }
+    const size = (bound: ArrayBound | null) => bound && bound.high - bound.low + 1;
+    const sizesDiffer = shape.dims.some((bound, i) => bound !== null && expected.dims[i] !== null && size(bound) !== size(expected.dims[i]));
+    const typesDiffer = shape.type !== 'Unknown' && expected.type !== 'Unknown' && shape.type !== expected.type;
+    if (shape.dims.length !== expected.dims.length || sizesDiffer || typesDiffer) {
+      this.report(node.span, message(this.formatShape(expected), this.formatShape(shape)));
+    }
+  }
+
+  private formatShape(shape: ArrayShape): string {
+    return `Array${formatDimensions(shape.dims)} of ${shape.type}`;
+  }
+
+  private checkCall(name: string, args: ASTNode[], span: SourceSpan, needsValue: boolean): ValueType {
+    const builtin = BUILTINS.get(name.toLowerCase());
+    if (builtin) return this.checkBuiltinCall(builtin, args, span, needsValue);
+    const funcDef = this.functions.get(name.toLowerCase());
+    if (!funcDef || args.length !== funcDef.params.length) {
+      for (const arg of args) {
+        if (!this.arrayShape(arg)) this.checkExpression(arg);
+      }
+      if (!funcDef) {
+        this.report(span, `Unknown procedure/function '${name}'.`);
+        return 'Unknown';
+      }
+      this.report(span, `'${funcDef.name}' expects ${funcDef.params.length} arguments, got ${args.length}.`);
+    } else {
+      funcDef.params.forEach((param, i) => {
+        const expected = this.normalizeType(param.type);
+        if (param.dimensions.length > 0) {
+          if (param.byRef) this.checkReferenceTarget(args[i], param.name, funcDef.name);
+          const shape = { type: expected, dims: param.dimensions };
+          this.checkArrayValue(args[i], shape, (expected, got) => `Argument '${param.name}' of '${funcDef.name}' expects ${expected}, got ${got}.`);
+          return;
+        }
+        const type = this.checkExpression(args[i]);
+        if (param.byRef) {
+          if (this.checkReferenceTarget(args[i], param.name, funcDef.name) && type !== 'Unknown' && expected !== 'Unknown' && type !== expected) {
+            this.report(args[i].span, `By-reference argument '${param.name}' of '${funcDef.name}' must be ${expected}, got ${type}.`);
+          }
+        } else if (!this.isAssignable(expected, type)) {
+          this.report(args[i].span, `Argument '${param.name}' of '${funcDef.name}' expects ${expected}, got ${type}.`);
+        }
+      });
+    }
+    if (funcDef.kind === 'ProcedureDecl') {
+      if (needsValue) this.report(span, `Procedure '${funcDef.name}' does not return a value.`);
+      return 'Unknown';
+    }
+    return this.normalizeType(funcDef.returnType);
+  }
+
+  private checkBuiltinCall(builtin: BuiltinSignature, args: ASTNode[], span: SourceSpan, needsValue: boolean): ValueType {
+    if (args.length !== builtin.params.length) {
+      this.report(span, `'${builtin.name}' expects ${builtin.params.length} arguments, got ${args.length}.`);
+    }
+    const types = args.map((arg, i) => {
+      const type = this.checkExpression(arg);
+      const expected = builtin.params[i];
+      if (expected === undefined || type === 'Unknown') return type;
+      const fits = expected === 'File' ? this.isFile(arg)
+        : expected === 'Number' ? this.isNumeric(type)
+        : expected === 'Text' ? type === 'String' || type === 'Char'
+        : this.isAssignable(this.normalizeType(expected), type);
+      if (!fits) {
+        const wanted = expected === 'File' ? 'a File variable' : expected === 'Number' ? 'Integer or Real' : expected === 'Text' ? 'String or Char' : expected;
+        this.report(arg.span, `Argument ${i + 1} of '${builtin.name}' expects ${wanted}, got ${type}.`);
+        return 'Unknown';
+      }
+      return type;
+    });
+    if (builtin.returnType === 'Number') {
+      if (types.includes('Unknown')) return 'Unknown';
+      return types.every(type => type === 'Integer') ? 'Integer' : 'Real';
+    }
+    if (builtin.returnType === 'Text') {
+      if (types.includes('Unknown')) return 'Unknown';
+      return types.every(type => type === 'Char') ? 'Char' : 'String';
+    }
+    if (builtin.returnType) return this.normalizeType(builtin.returnType);
+    if (needsValue) this.report(span, `Procedure '${builtin.name}' does not return a value.`);
+    return 'Unknown';
+  }
+
+  // The callee writes straight into the argument, so it must be a variable (of exactly the parameter's type)
+  private checkReferenceTarget(arg: ASTNode, paramName: string, funcName: string): boolean {
+    if (arg.kind !== 'Identifier' && arg.kind !== 'ArrayAccess' && arg.kind !== 'FieldAccess' && arg.kind !== 'Deref') {
+      this.report(arg.span, `Argument '${paramName}' of '${funcName}' is passed by reference, so it must be a variable, array element, record field or pointed-to value.`);
+      return false;
+    }
+    if (this.isConstant(this.rootName(arg))) {
+      this.report(arg.span, `Cannot pass constant '${this.rootName(arg)}' by reference to '${funcName}'.`);
+      return false;
+    }
+    return true;
+  }
+
+  private checkExpression(node: ASTNode): ValueType {
+    switch (node.kind) {
+      case 'Literal':
+        // Quotes don't distinguish the two, so a one-character literal fits both
+        return node.valueType === 'String' && node.value.length === 1 ? 'Char' : node.valueType;
+      case 'Identifier':
+      case 'ArrayAccess':
+      case 'FieldAccess':
+      case 'Deref':
+        return this.checkReference(node);
+      case 'Call': {
+        const type = this.checkCall(node.name, node.args, node.span, true);
+        const funcDef = this.functions.get(node.name.toLowerCase());
+        if (funcDef?.kind === 'FunctionDecl' && funcDef.returnDimensions.length > 0) {
+          this.report(node.span, `'${funcDef.name}' returns an array, which can only be assigned, passed or returned as a whole.`);
+          return 'Unknown';
+        }
+        return type;
+      }
+      case 'UnaryOp': {
+        const operand = this.checkExpression(node.operand);
+        if (operand === 'Unknown') return 'Unknown';
+        if (node.operator === TokenType.NOT) {
+          if (operand === 'Boolean') return 'Boolean';
+        } else if (this.isNumeric(operand)) {
+          return operand;
+        }
+        this.report(node.span, `Operator '${OPERATOR_SYMBOLS[node.operator]}' cannot be applied to ${operand}.`);
+        return 'Unknown';
+      }
+      case 'BinaryOp': {
+        const left = this.checkExpression(node.left);
+        const right = this.checkExpression(node.right);
+        if (left === 'Unknown' || right === 'Unknown') return 'Unknown';
+        const result = this.binaryResult(node.operator, left, right);
+        if (!result) {
+          this.report(node.span, `Operator '${OPERATOR_SYMBOLS[node.operator]}' cannot be applied to ${left} and ${right}.`);
+          return 'Unknown';
+        }
+        return result;
+      }
+      default:
+        return 'Unknown';
+    }
+  }
+
+  private binaryResult(operator: TokenType, left: ValueType, right: ValueType): ValueType | null {
+    const numeric = this.isNumeric(left) && this.isNumeric(right);
+    const text = this.isText(left) && this.isText(right);
+    const widened: ValueType = left === 'Integer' && right === 'Integer' ? 'Integer' : 'Real';
+    switch (operator) {
+      case TokenType.PLUS:
+        if (numeric) return widened;
+        return text ? 'String' : null;
+      case TokenType.MINUS:
+      case TokenType.MULTIPLY:
+        return numeric ? widened : null;
+      case TokenType.DIVIDE:
+        return numeric ? 'Real' : null;
+      case TokenType.DIV:
+      case TokenType.MOD:
+        return left === 'Integer' && right === 'Integer' ? 'Integer' : null;
+      case TokenType.LESS:
+      case TokenType.LESS_EQUAL:
+      case TokenType.GREATER:
+      case TokenType.GREATER_EQUAL:
+        return numeric || text ? 'Boolean' : null;
+      case TokenType.EQUAL:
+      case TokenType.NOT_EQUAL:
+        if (numeric || text || (left === 'Boolean' && right === 'Boolean')) return 'Boolean';
+        // Pointers compare by address: the same cell, or both Nil
+        return (this.isPointer(left) || left === 'Nil') && (this.isPointer(right) || right === 'Nil')
+          && (left === right || left === 'Nil' || right === 'Nil') ? 'Boolean' : null;
+      case TokenType.AND:
+      case TokenType.OR:
+        return left === 'Boolean' && right === 'Boolean' ? 'Boolean' : null;
+      default:
+        return null;
+    }
+  }
+}
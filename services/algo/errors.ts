@@ -0,0 +1,69 @@
+import { RuntimeErrorInfo, SourceSpan, StackFrameInfo } from '../../types';
+
+export interface RuntimeErrorDetails {
+  span?: SourceSpan;
+  expression?: string; // Source text of the failing expression, when the failure is inside one
+  callStack?: StackFrameInfo[]; // Innermost frame first
+}
+
+export class AlgoRuntimeError extends Error {
+  public line: number;
+  public span?: SourceSpan;
+  public expression?: string;
+  public callStack: StackFrameInfo[];
+
+  constructor(message: string, line: number, details: RuntimeErrorDetails = {}) {
+    super(message);
+    this.name = 'AlgoRuntimeError';
+    this.line = line;
+    this.span = details.span;
+    this.expression = details.expression;
+    this.callStack = details.callStack ?? [];
+  }
+
+  // One-line text for the console, in the same "Line N:" style as parser errors
+  public describe(): string {
+    return `Line ${this.line}: ${this.message}`;
+  }
+
+  // Plain data, so the error survives the trip from the worker to the IDE
+  public toInfo(): RuntimeErrorInfo {
+    return {
+      message: this.message,
+      line: this.line,
+      span: this.span,
+      expression: this.expression,
+      callStack: this.callStack
+    };
+  }
+}
+
+export class StepLimitError extends AlgoRuntimeError {
+  constructor(line: number, public steps: number, callStack: StackFrameInfo[]) {
+    super(`Possible infinite loop at line ${line} after ${steps.toLocaleString('en-US')} steps.`, line, { callStack });
+    this.name = 'StepLimitError';
+  }
+
+  public describe(): string {
+    return this.message;
+  }
+}
+
+export class CallDepthError extends AlgoRuntimeError {
+  constructor(line: number, public functionName: string, public maxDepth: number, callStack: StackFrameInfo[]) {
+    super(`Maximum call depth of ${maxDepth.toLocaleString('en-US')} exceeded calling '${functionName}' at line ${line}. Is the recursion missing a base case?`, line, { callStack });
+    this.name = 'CallDepthError';
+  }
+
+  public describe(): string {
+    return this.message;
+  }
+}
+
+// A False Assert. Run Tests reports it as a failed test rather than as a crash.
+export class AssertionError extends AlgoRuntimeError {
+  constructor(message: string, line: number, details: RuntimeErrorDetails) {
+    super(`Assertion failed: ${message}`, line, details);
+    this.name = 'AssertionError';
+  }
+}
@@ -0,0 +1,88 @@
+import { FileHandle, ProgramFile } from '../../types';
+
+const FILE_EXTENSIONS = ['.txt', '.dat'];
+
+// Program sources stay out of reach, so a program can't overwrite itself
+export const isDataFileName = (name: string): boolean => FILE_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext));
+
+export const createFileHandle = (): FileHandle => ({ name: null, mode: 'closed', lines: [], position: 0 });
+
+// A final newline ends the last line rather than starting an empty one
+const splitLines = (content: string): string[] => {
+  if (content === '') return [];
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// The text files next to the running program, by name. Reset reads a file whole; what is
+// written reaches the project only when the file is closed, as with a real disk buffer.
+export class ProgramFiles {
+  private files: Map<string, string>;
+
+  constructor(files: ProgramFile[]) {
+    this.files = new Map(files.map(file => [file.name, file.content]));
+  }
+
+  public assign(handle: FileHandle, name: string) {
+    if (handle.mode !== 'closed') throw new Error(`Close '${handle.name}' before assigning another file.`);
+    if (!isDataFileName(name)) {
+      throw new Error(`Cannot use '${name}': only ${FILE_EXTENSIONS.join(' and ')} files can be opened.`);
+    }
+    handle.name = name;
+  }
+
+  public reset(handle: FileHandle) {
+    const name = this.closedName(handle);
+    const content = this.files.get(name);
+    if (content === undefined) throw new Error(`File '${name}' not found next to the program.`);
+    Object.assign(handle, { mode: 'read', lines: splitLines(content), position: 0 });
+  }
+
+  // Empties the file, creating it when needed; returns it so the IDE can show it straight away
+  public rewrite(handle: FileHandle): ProgramFile {
+    const name = this.closedName(handle);
+    this.files.set(name, '');
+    Object.assign(handle, { mode: 'write', lines: [], position: 0 });
+    return { name, content: '' };
+  }
+
+  public append(handle: FileHandle) {
+    const name = this.closedName(handle);
+    Object.assign(handle, { mode: 'write', lines: splitLines(this.files.get(name) ?? ''), position: 0 });
+  }
+
+  // The saved file when it was open for writing, null when it was only read
+  public close(handle: FileHandle): ProgramFile | null {
+    if (handle.mode === 'closed') throw new Error(`'${handle.name ?? 'File'}' is not open.`);
+    const wasWriting = handle.mode === 'write';
+    const content = handle.lines.map(line => `${line}\n`).join('');
+    Object.assign(handle, { mode: 'closed', lines: [], position: 0 });
+    if (!wasWriting) return null;
+    this.files.set(handle.name!, content);
+    return { name: handle.name!, content };
+  }
+
+  public readLine(handle: FileHandle): string {
+    if (handle.mode !== 'read') throw new Error(`'${handle.name ?? 'File'}' is not open for reading; call Reset first.`);
+    if (handle.position >= handle.lines.length) throw new Error(`Read past the end of '${handle.name}'; check EOF before reading.`);
+    return handle.lines[handle.position++];
+  }
+
+  public writeLine(handle: FileHandle, text: string) {
+    if (handle.mode !== 'write') throw new Error(`'${handle.name ?? 'File'}' is not open for writing; call Rewrite or Append first.`);
+    handle.lines.push(text);
+  }
+
+  public eof(handle: FileHandle): boolean {
+    if (handle.mode !== 'read') throw new Error(`EOF needs '${handle.name ?? 'File'}' open for reading; call Reset first.`);
+    return handle.position >= handle.lines.length;
+  }
+
+  // The assigned name of a file about to be opened
+  private closedName(handle: FileHandle): string {
+    if (handle.name === null) throw new Error("No file assigned yet; call Assign(f, name) first.");
+    if (handle.mode !== 'closed') throw new Error(`'${handle.name}' is already open; Close it first.`);
+    return handle.name;
+  }
+}
@@ -1,85 +1,259 @@
-import { ASTNode, TokenType, ProgramNode, RuntimeValue, VarDeclNode, BlockNode, InterpreterEvent, FunctionDeclNode, ProcedureDeclNode } from '../../types';
+import { ASTNode, ArrayBound, TokenType, ProgramNode, RuntimeValue, ConstDeclNode, RecordTypeNode, VarDeclNode, IdentifierNode, FieldAccessNode, DerefNode, ParamDecl, BlockNode, InterpreterEvent, FunctionDeclNode, ProcedureDeclNode, VariablesSnapshot, VariableChange, ExecutionLimits, StackFrameInfo, HeapFieldInfo, FileHandle, ProgramFile, TestResult } from '../../types';
+import { AlgoRuntimeError, AssertionError, StepLimitError, CallDepthError } from './errors';
+import { formatDimensions, formatExpression, formatOutput, formatValue } from './printer';
+import { BUILTINS, BuiltinSignature, DEFAULT_RANDOM_SEED, createRandom } from './builtins';
+import { ProgramFiles, createFileHandle } from './files';
 
 interface Scope {
+  id: number;
+  name: string;
+  line: number;
   variables: Map<string, RuntimeValue>;
+  params: string[]; // Names in `variables` bound from call arguments
   returnVal?: any;
 }
 
+// Freed cells stay in the heap, so a pointer still holding their address is caught when followed
+interface HeapCell {
+  type: string; // Declared type of the value, such as Node
+  value: any;
+  freedLine?: number;
+}
+
+export const DEFAULT_LIMITS: ExecutionLimits = {
+  maxSteps: 1000000,
+  maxCallDepth: 200 // Each call nests several generators, and a call inside nested loops runs out of JavaScript stack near 280
+};
+
 export class Interpreter {
   private callStack: Scope[] = [];
+  private baseFrames: number = 1; // Frames under the first call: the global scope, and a Test block's own frame
   private functions: Map<string, FunctionDeclNode | ProcedureDeclNode> = new Map();
+  private records: Map<string, RecordTypeNode> = new Map();
+  private heap: Map<number, HeapCell> = new Map(); // By address; pointer values are these addresses, or null for Nil
+  private nextAddress: number = 1;
+  private nextFrameId: number = 0;
+  private pendingChanges: VariableChange[] = [];
+  private limits: ExecutionLimits;
+  private initialFiles: ProgramFile[];
+  private files: ProgramFiles;
+  private random: () => number = createRandom(DEFAULT_RANDOM_SEED);
+  private steps: number = 0;
+  private loopLines: number[] = []; // Enclosing loops, innermost last, to blame when the step budget runs out
+
+  constructor(limits: Partial<ExecutionLimits> = {}, files: ProgramFile[] = []) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+    this.initialFiles = files;
+    this.files = new ProgramFiles(files);
+  }
 
   public *execute(ast: ProgramNode): Generator<InterpreterEvent, void, any> {
+    this.reset(ast);
+    try {
+      yield* this.enterGlobalScope(ast);
+      
+      // Yield step for program start
+      yield this.stepEvent(ast.line);
+      
+      yield* this.executeBlock(ast.body);
+    } catch (e: any) {
+      if (e instanceof RangeError) {
+          // The JavaScript stack ran out before maxCallDepth was reached
+          yield { type: 'error', value: `Runtime Error: ${this.outOfStackMessage()}` };
+      } else if (e.message !== 'RETURN') {
+          const error = e instanceof AlgoRuntimeError ? e : new AlgoRuntimeError(e.message, ast.line, { callStack: this.captureCallStack() });
+          yield { type: 'error', value: `Runtime Error: ${error.describe()}`, error: error.toInfo() };
+      }
+    }
+  }
+
+  // Each Test block runs as if it were the whole program: globals, heap, files and Random start
+  // over, and a False Assert or a runtime error ends only that test.
+  public *runTests(ast: ProgramNode): Generator<InterpreterEvent, void, any> {
+    for (const test of ast.tests) {
+      this.reset(ast);
+      const result: TestResult = { name: test.name, line: test.line, status: 'passed' };
+      try {
+        yield* this.enterGlobalScope(ast);
+        const scope: Scope = { id: this.nextFrameId++, name: `Test "${test.name}"`, line: test.line, variables: new Map(), params: [] };
+        this.callStack.push(scope);
+        this.baseFrames = 2;
+        this.initializeVariables(test.variables, scope);
+        yield this.stepEvent(test.line);
+        yield* this.executeBlock(test.body);
+      } catch (e: any) {
+        if (e.message !== 'RETURN') {
+          const message = e instanceof RangeError ? this.outOfStackMessage() : e.message;
+          const error = e instanceof AlgoRuntimeError ? e : new AlgoRuntimeError(message, test.line, { callStack: this.captureCallStack() });
+          result.status = error instanceof AssertionError ? 'failed' : 'error';
+          result.error = error.toInfo();
+        }
+      }
+      yield { type: 'test', result };
+    }
+  }
+
+  private outOfStackMessage(): string {
+      return `Out of stack space at call depth ${this.callStack.length - this.baseFrames}. Lower the maximum call depth in Settings.`;
+  }
+
+  // A fresh start: no frames, no heap, the files as given and Random back at its default seed
+  private reset(ast: ProgramNode) {
     this.callStack = [];
+    this.baseFrames = 1;
     this.functions.clear();
+    this.nextFrameId = 0;
+    this.pendingChanges = [];
+    this.steps = 0;
+    this.loopLines = [];
 
     // Register functions
     for (const func of ast.functions) {
         this.functions.set(func.name.toLowerCase(), func);
     }
+    this.records.clear();
+    for (const record of ast.types) {
+        this.records.set(record.name.toLowerCase(), record);
+    }
+    this.heap.clear();
+    this.nextAddress = 1;
+    this.files = new ProgramFiles(this.initialFiles);
+    this.random = createRandom(DEFAULT_RANDOM_SEED);
+  }
 
-    try {
-      // Global Scope
-      const globalScope = { variables: new Map<string, RuntimeValue>() };
-      this.callStack.push(globalScope);
-      this.initializeVariables(ast.variables, globalScope);
-      
-      // Yield step for program start
-      yield { type: 'step', line: ast.line, variables: this.getVariablesSnapshot() };
-      
-      yield* this.executeBlock(ast.body);
-    } catch (e: any) {
-      if (e.message !== 'RETURN') {
-          yield { type: 'error', value: `Runtime Error: ${e.message}` };
+  private *enterGlobalScope(ast: ProgramNode): Generator<InterpreterEvent, void, any> {
+    const globalScope: Scope = { id: this.nextFrameId++, name: ast.name, line: ast.line, variables: new Map(), params: [] };
+    this.callStack.push(globalScope);
+    yield* this.initializeConstants(ast.constants, globalScope);
+    this.initializeVariables(ast.variables, globalScope);
+  }
+
+  // Steps only carry what changed since the previous step. Copying every array on every
+  // statement made large matrix loops crawl; a full view is built by getVariablesSnapshot()
+  // when the debugger actually needs one.
+  private stepEvent(line: number): InterpreterEvent {
+      this.countStep(line);
+      const top = this.callStack[this.callStack.length - 1];
+      top.line = line;
+
+      const changes = this.pendingChanges;
+      this.pendingChanges = [];
+
+      return {
+          type: 'step',
+          line,
+          depth: this.callStack.length - 1,
+          frameId: top.id,
+          changes,
+          callStack: () => this.captureCallStack()
+      };
+  }
+
+  // Innermost frame first, like a debugger's call stack view
+  private captureCallStack(): StackFrameInfo[] {
+      return this.callStack.map(({ id, name, line }) => ({ id, name, line })).reverse();
+  }
+
+  // Attaches the failing node's line (and, for expressions, its text) to errors thrown by
+  // helpers that know nothing about the AST. Errors that already carry a position, the RETURN
+  // signal and JavaScript stack exhaustion pass through untouched.
+  private toRuntimeError(e: any, node: ASTNode, isExpression: boolean): any {
+      if (e instanceof AlgoRuntimeError || e instanceof RangeError || e.message === 'RETURN') return e;
+      return new AlgoRuntimeError(e.message, node.line, {
+          span: node.span,
+          expression: isExpression ? formatExpression(node) : undefined,
+          callStack: this.captureCallStack()
+      });
+  }
+
+  // Globals and each call's parameters/locals are kept apart, so a local never hides
+  // a global of the same name and every recursive call gets its own entry.
+  public getVariablesSnapshot(): VariablesSnapshot {
+      if (this.callStack.length === 0) return { globals: new Map(), frames: [], heap: [] };
+      const [globalScope, ...calls] = this.callStack;
+      return {
+          globals: this.copyVariables(globalScope, () => true),
+          frames: calls.map(scope => ({
+              id: scope.id,
+              name: scope.name,
+              params: this.copyVariables(scope, name => scope.params.includes(name)),
+              locals: this.copyVariables(scope, name => !scope.params.includes(name))
+          })),
+          heap: Array.from(this.heap, ([address, cell]) => ({ address, type: cell.type, freed: cell.freedLine !== undefined, fields: this.heapFields(cell) }))
+      };
+  }
+
+  // Each field is copied, and marked when it holds a pointer so the debugger can draw an arrow from it
+  private heapFields(cell: HeapCell): HeapFieldInfo[] {
+      const record = this.records.get(cell.type.toLowerCase());
+      if (!record) return [{ name: '', value: cell.value, isPointer: cell.type.startsWith('^') }];
+      return record.fields.flatMap(field => field.names.map(name => ({
+          name,
+          value: JSON.parse(JSON.stringify(cell.value[name])),
+          isPointer: field.dimensions.length === 0 && field.varType.startsWith('^')
+      })));
+  }
+
+  private copyVariables(scope: Scope, include: (name: string) => boolean): Map<string, RuntimeValue> {
+      const copy = new Map<string, RuntimeValue>();
+      scope.variables.forEach((val, key) => {
+          if (!include(key)) return;
+          if ((val.type === 'Array' || val.type === 'Record') && typeof val.value === 'object') {
+             // Arrays and records are changed in place, so the snapshot needs its own copy
+             copy.set(key, { ...val, value: JSON.parse(JSON.stringify(val.value)) });
+          } else {
+             copy.set(key, { ...val });
+          }
+      });
+      return copy;
+  }
+
+  // Loop iterations count too, so even an empty `While True Do EndWhile` runs out of budget
+  private countStep(line: number) {
+      if (++this.steps > this.limits.maxSteps) {
+          throw new StepLimitError(this.loopLines[this.loopLines.length - 1] ?? line, this.limits.maxSteps, this.captureCallStack());
       }
-    }
   }
 
-  private getVariablesSnapshot(): Map<string, RuntimeValue> {
-      // Snapshot current stack (simplified: just top scope for now + globals if we want, but top scope is most relevant for debugger)
-      // To be more useful, we might want to merge global and local in the debugger view
-      const snapshot = new Map<string, RuntimeValue>();
-      
-      // Merge all scopes bottom-up (Global -> ... -> Local)
-      for(const scope of this.callStack) {
-          scope.variables.forEach((val, key) => {
-              if (val.type === 'Array' && Array.isArray(val.value)) {
-                 // Deep copy isn't strictly necessary for simple visualization but good for history. 
-                 // For performance, we might shallow copy.
-                 snapshot.set(key, { ...val, value: JSON.parse(JSON.stringify(val.value)) });
-              } else {
-                 snapshot.set(key, { ...val });
-              }
-          });
+  private *initializeConstants(decls: ConstDeclNode[], scope: Scope): Generator<InterpreterEvent, void, any> {
+    for (const decl of decls) {
+      const value = yield* this.evaluate(decl.value);
+      const type = decl.constType ?? decl.valueType;
+      try {
+        scope.variables.set(decl.name, {
+          type: this.normalizeType(type),
+          value: this.checkAssignable(type, value, `constant '${decl.name}'`),
+          isConstant: true
+        });
+      } catch (e: any) {
+        throw this.toRuntimeError(e, decl, false);
       }
-      return snapshot;
+    }
   }
 
   private initializeVariables(decls: VarDeclNode[], scope: Scope) {
     for (const decl of decls) {
       for (const name of decl.names) {
-        if (decl.dimensions.length > 0) {
-          // Initialize Matrix/Array
-          const val = this.createArray(decl.dimensions, decl.varType);
-          scope.variables.set(name, {
-            type: 'Array',
-            value: val,
-            arrayType: decl.varType,
-            dims: decl.dimensions
-          });
-        } else {
-          scope.variables.set(name, {
-            type: this.normalizeType(decl.varType),
-            value: this.defaultValue(decl.varType)
-          });
-        }
+        scope.variables.set(name, {
+          ...this.typeInfo(decl.varType, decl.dimensions),
+          value: this.createArray(decl.dimensions, decl.varType)
+        });
       }
     }
   }
 
-  private createArray(dims: number[], type: string): any {
+  // The type fields of a RuntimeValue holding a declared type, or an array of it when there are dims
+  private typeInfo(declared: string, dims: ArrayBound[]): Pick<RuntimeValue, 'type' | 'arrayType' | 'recordType' | 'pointerType' | 'dims'> {
+      if (dims.length > 0) return { type: 'Array', arrayType: declared, dims };
+      if (declared.startsWith('^')) return { type: 'Pointer', pointerType: declared };
+      const record = this.records.get(declared.toLowerCase());
+      return record ? { type: 'Record', recordType: record.name } : { type: this.normalizeType(declared) };
+  }
+
+  // Nested JavaScript arrays, one level per dimension; a scalar's default value when there are none
+  private createArray(dims: ArrayBound[], type: string): any {
       if (dims.length === 0) return this.defaultValue(type);
-      const size = dims[0];
+      const size = dims[0].high - dims[0].low + 1;
       const rest = dims.slice(1);
       const arr = new Array(size);
       for(let i=0; i<size; i++) {
@@ -88,29 +262,131 @@ export class Interpreter {
       return arr;
   }
 
-  private getVariable(name: string): RuntimeValue {
+  private findScope(name: string): Scope {
       // Search from top of stack down
       for (let i = this.callStack.length - 1; i >= 0; i--) {
           if (this.callStack[i].variables.has(name)) {
-              return this.callStack[i].variables.get(name)!;
+              return this.callStack[i];
           }
       }
       throw new Error(`Variable '${name}' not declared.`);
   }
 
+  private getVariable(name: string): RuntimeValue {
+      return this.findScope(name).variables.get(name)!;
+  }
+
+  // Assignment, Read and For loops all go through here, so a constant never changes
+  private getWritableVariable(name: string): RuntimeValue {
+      const variable = this.getVariable(name);
+      if (variable.isConstant) throw new Error(`Cannot change constant '${name}'.`);
+      return variable;
+  }
+
+  private recordChange(name: string, indexes?: number[]) {
+      const scope = this.findScope(name);
+      this.pendingChanges.push({ frameId: scope.id, name, indexes });
+      // A write through a by-reference parameter changes the caller's variable too
+      for (const alias of scope.variables.get(name)!.aliases ?? []) {
+          this.pendingChanges.push({ ...alias, indexes: indexes ? [...(alias.indexes ?? []), ...indexes] : alias.indexes });
+      }
+  }
+
   private normalizeType(typeStr: string): any {
     const t = typeStr.toLowerCase();
-    if (t === 'integer' || t === 'real') return 'Real';
+    if (t === 'integer') return 'Integer';
+    if (t === 'real') return 'Real';
     if (t === 'boolean') return 'Boolean';
     if (t === 'string') return 'String';
+    if (t === 'char') return 'Char';
+    if (t === 'file') return 'File';
+    if (t.startsWith('^')) return 'Pointer';
+    if (this.records.has(t)) return 'Record';
     return 'Real';
   }
 
+  // Values are plain JS numbers and strings, so an Integer is any number without a
+  // fractional part and a Char is any one-character string
+  private checkAssignable(type: string, value: any, target: string): any {
+    if (Array.isArray(value)) throw new Error(`Type mismatch: cannot assign a whole array to ${target}.`);
+    if (type.toLowerCase() === 'file') throw new Error(`Files cannot be copied into ${target}; pass them with Var.`);
+    if (type.startsWith('^')) {
+      if (value !== null && !this.heap.has(value)) throw new Error(`Type mismatch: ${target} expects a ${type} pointer, got ${value}.`);
+      return value;
+    }
+    const record = this.records.get(type.toLowerCase());
+    if (record) {
+      if (typeof value !== 'object' || value === null) throw new Error(`Type mismatch: ${target} expects a ${record.name} record, got ${value}.`);
+      return JSON.parse(JSON.stringify(value)); // Records are values too: every field is copied
+    }
+    if (typeof value === 'object' && value !== null) throw new Error(`Type mismatch: cannot assign a record to ${target}.`);
+    // A Real such as 4.0 holds a whole number too, so Real into Integer is left to the checker, which
+    // knows the source's declared type and stops the program before it runs
+    const t = this.normalizeType(type);
+    if (t === 'Char' && (typeof value !== 'string' || value.length !== 1)) {
+      throw new Error(`Type mismatch: Char ${target} needs exactly one character, got ${typeof value === 'string' ? `"${value}"` : value}.`);
+    }
+    return value;
+  }
+
+  // Arrays are values: assigning one, passing it by value or returning it copies every cell.
+  // The sizes must match wherever the declaration gives a range; null leaves a size open.
+  private copyArray(value: any, dims: (ArrayBound | null)[], target: string): any[] {
+    this.checkShape(value, dims, target);
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private checkShape(value: any, dims: (ArrayBound | null)[], target: string) {
+    const actual = this.shapeOf(value);
+    if (actual.length !== dims.length || dims.some((bound, i) => bound !== null && bound.high - bound.low + 1 !== actual[i])) {
+      const got = actual.map(size => ({ low: 0, high: size - 1 }));
+      throw new Error(`Type mismatch: ${target} expects ${this.describeShape(dims)}, got ${this.describeShape(got)}.`);
+    }
+  }
+
+  // Sizes of a value's dimensions; the index ranges live in RuntimeValue.dims
+  private shapeOf(value: any): number[] {
+    const dims: number[] = [];
+    for (let current = value; Array.isArray(current); current = current[0]) dims.push(current.length);
+    return dims;
+  }
+
+  private describeShape(dims: (ArrayBound | null)[]): string {
+    return dims.length === 0 ? 'a single value' : `Array${formatDimensions(dims)}`;
+  }
+
+  // Inside the callee an array parameter is indexed by its declared ranges, or by the argument's where left open
+  private paramBounds(param: ParamDecl, argBounds: ArrayBound[]): ArrayBound[] {
+    return param.dimensions.map((bound, i) => bound ?? argBounds[i]);
+  }
+
+  private boundsOf(arg: ASTNode, value: any): ArrayBound[] {
+    if (arg.kind === 'Identifier') return this.getVariable(arg.name).dims ?? [];
+    if (arg.kind === 'ArrayAccess') return (this.getVariable(arg.name).dims ?? []).slice(arg.indexes.length);
+    return this.shapeOf(value).map(size => ({ low: 0, high: size - 1 }));
+  }
+
+  private integerOperands(operator: string, l: any, r: any) {
+    if (!Number.isInteger(l) || !Number.isInteger(r)) throw new Error(`${operator} expects Integer operands, got ${l} and ${r}.`);
+    if (r === 0) throw new Error("Division by zero.");
+  }
+
   private defaultValue(typeStr: string): any {
     const t = typeStr.toLowerCase();
     if (t === 'integer' || t === 'real') return 0;
     if (t === 'boolean') return false;
     if (t === 'string') return "";
+    if (t === 'char') return ' ';
+    if (t === 'file') return createFileHandle();
+    if (t.startsWith('^')) return null; // Pointers start as Nil
+    const record = this.records.get(t);
+    if (record) {
+      const value: Record<string, any> = {};
+      for (const field of record.fields) {
+        for (const name of field.names) value[name] = this.createArray(field.dimensions, field.varType);
+      }
+      return value;
+    }
     return 0;
   }
 
@@ -121,71 +397,99 @@ export class Interpreter {
   }
 
   private *executeStatement(stmt: ASTNode): Generator<InterpreterEvent, void, any> {
-    yield { type: 'step', line: stmt.line, variables: this.getVariablesSnapshot() };
+    yield this.stepEvent(stmt.line);
+    try {
+      yield* this.runStatement(stmt);
+    } catch (e: any) {
+      throw this.toRuntimeError(e, stmt, false);
+    }
+  }
 
+  private *runStatement(stmt: ASTNode): Generator<InterpreterEvent, void, any> {
     switch (stmt.kind) {
       case 'IO':
+        // Write(f, ...) and Read(f, ...) go to the File f instead of the console, one line per call or variable
+        const file = this.fileArgument(stmt.args[0]);
+        const args = file ? stmt.args.slice(1) : stmt.args;
         if (stmt.type === 'Write') {
-          const text = stmt.args.map(arg => {
-             const val = this.evaluate(arg);
-             if (typeof val === 'number' && Number.isInteger(val)) return val.toString();
-             if (typeof val === 'number') return parseFloat(val.toFixed(4)).toString();
-             return val;
-          }).join(' ');
-          yield { type: 'output', value: text };
+          const values = yield* this.evaluateList(args);
+          const text = values.map(formatOutput).join(' ');
+          if (file) this.files.writeLine(file, text);
+          else yield { type: 'output', value: text };
         } else {
            // Read
-           for(const arg of stmt.args) {
+           for(const arg of args) {
                let varName = '';
-               let targetVar: RuntimeValue;
+               let targetVar: RuntimeValue | undefined;
                let indexes: number[] = [];
                
                if(arg.kind === 'Identifier') {
                    varName = arg.name;
-                   targetVar = this.getVariable(varName);
+                   targetVar = this.getWritableVariable(varName);
                } else if (arg.kind === 'ArrayAccess') {
                    varName = arg.name;
-                   targetVar = this.getVariable(varName);
-                   indexes = arg.indexes.map(idx => this.evaluate(idx));
+                   targetVar = this.getWritableVariable(varName);
+                   indexes = yield* this.evaluateList(arg.indexes);
+               } else if (arg.kind === 'FieldAccess' || arg.kind === 'Deref') {
+                   varName = this.rootName(arg);
+                   if (!this.throughPointer(arg)) this.getWritableVariable(varName);
                } else {
                    throw new Error("Read expects variable.");
                }
                
-               const typeToMatch = (targetVar.type === 'Array') ? this.normalizeType(targetVar.arrayType!) : targetVar.type;
+               const typeToMatch = this.normalizeType(this.describeReference(arg).type);
+               if (typeToMatch === 'Record') throw new Error("Read cannot fill a whole record; read its fields one by one.");
+               if (typeToMatch === 'Pointer') throw new Error("Read cannot fill a pointer; use Allocate to point it at a new cell.");
 
-               const input = yield { type: 'input', varName, varType: typeToMatch };
-               let val: any = input;
+               if (typeToMatch === 'File') throw new Error("Read cannot fill a File; pass it first to read from it.");
 
-               if (typeToMatch === 'Real' || typeToMatch === 'Integer') {
-                   val = parseFloat(input || "0");
-                   if(isNaN(val)) throw new Error("Expected a number input.");
-               } else if (typeToMatch === 'Boolean') {
-                   val = (input?.toLowerCase() === 'true');
-               }
+               const input = file
+                   ? this.files.readLine(file)
+                   : yield { type: 'input', varName: arg.kind === 'FieldAccess' || arg.kind === 'Deref' ? formatExpression(arg) : varName, varType: typeToMatch };
+               const val = this.convertInput(input, typeToMatch);
 
-               if(targetVar.type === 'Array') {
-                   this.setArrayValue(targetVar.value, indexes, val);
+               if (arg.kind === 'FieldAccess' || arg.kind === 'Deref') {
+                   yield* this.store(arg, val);
+               } else if (arg.kind === 'ArrayAccess') {
+                   this.setArrayValue(targetVar!, varName, indexes, val);
                } else {
-                   targetVar.value = val;
+                   targetVar!.value = val;
                }
+               if (!this.throughPointer(arg)) this.recordChange(varName, targetVar?.type === 'Array' ? this.splitCharIndex(targetVar, indexes).cell : undefined);
            }
         }
         break;
       case 'Assignment':
-        const val = this.evaluate(stmt.value);
+        const val = yield* this.evaluate(stmt.value);
         if (typeof stmt.target === 'string') {
-          const variable = this.getVariable(stmt.target);
-          variable.value = val;
+          const variable = this.getWritableVariable(stmt.target);
+          variable.value = variable.type === 'Array'
+            ? this.copyArray(val, variable.dims!, `array '${stmt.target}'`)
+            : this.checkAssignable(variable.recordType ?? variable.type, val, `variable '${stmt.target}'`);
+          this.recordChange(stmt.target);
+        } else if (stmt.target.kind === 'FieldAccess' || stmt.target.kind === 'Deref') {
+          const root = this.rootName(stmt.target);
+          // p^.value <- 1 changes a heap cell, not p
+          const viaPointer = this.throughPointer(stmt.target);
+          if (!viaPointer) this.getWritableVariable(root);
+          yield* this.store(stmt.target, val);
+          if (!viaPointer) this.recordChange(root);
         } else {
           // Array Assignment
-          const arrVar = this.getVariable(stmt.target.name);
-          if (arrVar.type !== 'Array') throw new Error(`'${stmt.target.name}' is not an array.`);
-          const indexes = stmt.target.indexes.map(idx => this.evaluate(idx));
-          this.setArrayValue(arrVar.value, indexes, val);
+          const arrVar = this.getWritableVariable(stmt.target.name);
+          this.checkIndexable(arrVar, stmt.target.name);
+          const indexes = yield* this.evaluateList(stmt.target.indexes);
+          const { cell, char } = this.splitCharIndex(arrVar, indexes);
+          // Fewer indexes than dimensions assign a whole row
+          const current = this.getArrayValue(arrVar, stmt.target.name, indexes);
+          this.setArrayValue(arrVar, stmt.target.name, indexes, Array.isArray(current)
+            ? this.copyArray(val, arrVar.dims!.slice(indexes.length), `row of '${stmt.target.name}'`)
+            : this.checkAssignable(char === undefined ? arrVar.arrayType! : 'Char', val, char === undefined ? `array '${stmt.target.name}'` : `character of '${stmt.target.name}'`));
+          this.recordChange(stmt.target.name, arrVar.type === 'Array' ? cell : undefined);
         }
         break;
       case 'If':
-        const cond = this.evaluate(stmt.condition);
+        const cond = yield* this.evaluate(stmt.condition);
         if (cond) {
           yield* this.executeBlock(stmt.thenBranch);
         } else if (stmt.elseBranch) {
@@ -193,40 +497,135 @@ export class Interpreter {
         }
         break;
       case 'While':
-        while (this.evaluate(stmt.condition)) {
-          yield* this.executeBlock(stmt.body);
+        this.loopLines.push(stmt.line);
+        try {
+          while (yield* this.evaluate(stmt.condition)) {
+            this.countStep(stmt.line);
+            yield* this.executeBlock(stmt.body);
+          }
+        } finally {
+          this.loopLines.pop();
+        }
+        break;
+      case 'Repeat':
+        this.loopLines.push(stmt.line);
+        try {
+          do {
+            this.countStep(stmt.line);
+            yield* this.executeBlock(stmt.body);
+          } while (!(yield* this.evaluate(stmt.condition)));
+        } finally {
+          this.loopLines.pop();
+        }
+        break;
+      case 'Case':
+        const selector = yield* this.evaluate(stmt.selector);
+        const branch = stmt.branches.find(b => b.labels.some(label =>
+          label.high === undefined ? selector === label.low : selector >= label.low && selector <= label.high));
+        if (branch) {
+          yield* this.executeBlock(branch.body);
+        } else if (stmt.elseBranch) {
+          yield* this.executeBlock(stmt.elseBranch);
         }
         break;
       case 'For':
-        const start = this.evaluate(stmt.start);
-        const end = this.evaluate(stmt.end);
-        const step = stmt.step ? this.evaluate(stmt.step) : 1;
+        const start = yield* this.evaluate(stmt.start);
+        const end = yield* this.evaluate(stmt.end);
+        const step = stmt.step ? yield* this.evaluate(stmt.step) : 1;
         
-        const loopVar = this.getVariable(stmt.variable);
-        loopVar.value = start;
+        const loopVar = this.getWritableVariable(stmt.variable);
+        this.checkAssignable(loopVar.type, step, `loop variable '${stmt.variable}'`);
+        loopVar.value = this.checkAssignable(loopVar.type, start, `loop variable '${stmt.variable}'`);
+        this.recordChange(stmt.variable);
 
-        while(true) {
-            const current = loopVar.value;
-            if (step >= 0 && current > end) break;
-            if (step < 0 && current < end) break;
+        this.loopLines.push(stmt.line);
+        try {
+          while(true) {
+              const current = loopVar.value;
+              if (step >= 0 && current > end) break;
+              if (step < 0 && current < end) break;
 
-            yield* this.executeBlock(stmt.body);
-            
-            loopVar.value += step;
+              this.countStep(stmt.line);
+              yield* this.executeBlock(stmt.body);
+              
+              loopVar.value += step;
+              this.recordChange(stmt.variable);
+          }
+        } finally {
+          this.loopLines.pop();
         }
         break;
       case 'Call':
         // Procedure Call
-        yield* this.executeCall(stmt.name, stmt.args);
+        yield* this.executeCall(stmt.name, stmt.args, stmt.line);
         break;
+      case 'Allocation': {
+        const pointer = this.describeReference(stmt.target);
+        const name = formatExpression(stmt.target);
+        if (!pointer.type.startsWith('^') || pointer.dims.length > 0) throw new Error(`${stmt.type} expects a pointer, but '${name}' is not one.`);
+        const viaPointer = this.throughPointer(stmt.target);
+        if (!viaPointer) this.getWritableVariable(this.rootName(stmt.target));
+        const { read, write } = yield* this.locate(stmt.target);
+        if (stmt.type === 'Allocate') {
+          const type = pointer.type.slice(1);
+          const address = this.nextAddress++;
+          this.heap.set(address, { type, value: this.defaultValue(type) });
+          write(address);
+          if (!viaPointer) this.recordChange(this.rootName(stmt.target));
+        } else {
+          // The pointer keeps its address, as in Pascal: following it afterwards is a use after free
+          const address = read();
+          if (address === null) throw new Error(`Cannot Free '${name}': it is Nil.`);
+          const cell = this.heap.get(address)!;
+          if (cell.freedLine !== undefined) throw new Error(`Double free: the cell '${name}' points to was already freed on line ${cell.freedLine}.`);
+          cell.freedLine = stmt.line;
+        }
+        break;
+      }
+      case 'Assert': {
+        if (yield* this.evaluate(stmt.condition)) break;
+        const condition = formatExpression(stmt.condition);
+        const message = stmt.message ? String(yield* this.evaluate(stmt.message)) : `${condition} is False.`;
+        throw new AssertionError(message, stmt.line, { span: stmt.span, expression: condition, callStack: this.captureCallStack() });
+      }
       case 'Return':
-        const returnVal = stmt.value ? this.evaluate(stmt.value) : null;
+        const returnVal = stmt.value ? yield* this.evaluate(stmt.value) : null;
         this.callStack[this.callStack.length - 1].returnVal = returnVal;
         throw new Error("RETURN"); // Throw to unwind stack to call site
     }
   }
 
-  private *executeCall(name: string, args: ASTNode[]): Generator<InterpreterEvent, any, any> {
+  // A line typed at the console or read from a file, as a value of the variable's type
+  private convertInput(input: string, type: string): any {
+      if (type === 'Integer') {
+          const text = (input || "0").trim();
+          if (!/^[+-]?\d+$/.test(text)) throw new Error(`Expected an integer input, got '${text}'.`);
+          return parseInt(text, 10);
+      }
+      if (type === 'Real') {
+          const val = parseFloat(input || "0");
+          if (isNaN(val)) throw new Error("Expected a number input.");
+          return val;
+      }
+      if (type === 'Boolean') {
+          const text = (input || "").trim().toLowerCase();
+          if (text !== 'true' && text !== 'false') throw new Error(`Expected True or False input, got '${input}'.`);
+          return text === 'true';
+      }
+      if (type === 'Char' && (input || "").length !== 1) throw new Error(`Expected a single character input, got '${input}'.`);
+      return input;
+  }
+
+  // The handle of a File variable passed as the first argument of Read, Write or a file routine
+  private fileArgument(node: ASTNode | undefined): FileHandle | null {
+      if (node?.kind !== 'Identifier') return null;
+      const variable = this.getVariable(node.name);
+      return variable.type === 'File' ? variable.value : null;
+  }
+
+  private *executeCall(name: string, args: ASTNode[], line: number): Generator<InterpreterEvent, any, any> {
+      const builtin = BUILTINS.get(name.toLowerCase());
+      if (builtin) return yield* this.callBuiltin(builtin, args);
       const funcDef = this.functions.get(name.toLowerCase());
       if (!funcDef) throw new Error(`Unknown procedure/function '${name}'.`);
 
@@ -234,22 +633,33 @@ export class Interpreter {
           throw new Error(`'${name}' expects ${funcDef.params.length} arguments, got ${args.length}.`);
       }
 
-      const evaluatedArgs = args.map(a => this.evaluate(a));
-      
-      // New Scope
-      const newScope: Scope = { variables: new Map() };
-      
-      // Bind Args
+      // Left to right: by-value arguments are evaluated, by-reference ones resolved to the caller's variable or cell
+      const bindings: RuntimeValue[] = [];
       for (let i = 0; i < funcDef.params.length; i++) {
-          newScope.variables.set(funcDef.params[i].name, {
-              type: this.normalizeType(funcDef.params[i].type),
-              value: evaluatedArgs[i]
-          });
+          const param = funcDef.params[i];
+          if (param.byRef) {
+              bindings.push(yield* this.referenceTo(args[i], param));
+          } else if (param.dimensions.length > 0) {
+              const value = yield* this.evaluate(args[i]);
+              const copy = this.copyArray(value, param.dimensions, `parameter '${param.name}'`);
+              bindings.push({ ...this.typeInfo(param.type, this.paramBounds(param, this.boundsOf(args[i], value))), value: copy });
+          } else {
+              const value = yield* this.evaluate(args[i]);
+              bindings.push({ ...this.typeInfo(param.type, []), value: this.checkAssignable(param.type, value, `parameter '${param.name}'`) });
+          }
       }
       
+      // New Scope
+      const newScope: Scope = { id: this.nextFrameId++, name: funcDef.name, line: funcDef.line, variables: new Map(), params: funcDef.params.map(p => p.name) };
+      funcDef.params.forEach((param, i) => newScope.variables.set(param.name, bindings[i]));
+      
       // Initialize Locals
       this.initializeVariables(funcDef.variables, newScope);
       
+      // The base frames are not calls, so the new call depth is one more than the calls already on the stack
+      if (this.callStack.length - this.baseFrames + 1 > this.limits.maxCallDepth) {
+          throw new CallDepthError(line, funcDef.name, this.limits.maxCallDepth, this.captureCallStack());
+      }
       this.callStack.push(newScope);
 
       try {
@@ -259,62 +669,318 @@ export class Interpreter {
       }
       
       const result = this.callStack.pop()?.returnVal;
-      return result;
+      if (funcDef.kind !== 'FunctionDecl') return result;
+      if (funcDef.returnDimensions.length > 0) return this.copyArray(result, funcDef.returnDimensions, `result of '${funcDef.name}'`);
+      return this.checkAssignable(funcDef.returnType, result, `result of '${funcDef.name}'`);
+  }
+
+  private *callBuiltin(builtin: BuiltinSignature, args: ASTNode[]): Generator<InterpreterEvent, any, any> {
+      if (args.length !== builtin.params.length) {
+          throw new Error(`'${builtin.name}' expects ${builtin.params.length} arguments, got ${args.length}.`);
+      }
+      if (builtin.apply) {
+          const values = yield* this.evaluateList(args);
+          const result = builtin.apply(...values);
+          // Sqrt(-1), Ln(0) and Power(0, -1) have no real value; Exp(1000) overflows
+          if (typeof result === 'number' && !Number.isFinite(result)) {
+              throw new Error(`${builtin.name}(${values.map(formatValue).join(', ')}) is undefined or too large.`);
+          }
+          return result;
+      }
+      switch (builtin.name) {
+          case 'Random': {
+              const bound = yield* this.evaluate(args[0]);
+              if (!Number.isInteger(bound) || bound < 1) throw new Error(`Random expects a bound of at least 1, got ${bound}.`);
+              return Math.floor(this.random() * bound);
+          }
+          case 'Randomize':
+              this.random = createRandom(yield* this.evaluate(args[0]));
+              return null;
+          default:
+              return yield* this.callFileRoutine(builtin, args);
+      }
+  }
+
+  // File routines work on the File variable passed first. Rewrite and Close hand the file's new
+  // content to the IDE, so the project shows it without waiting for the program to end.
+  private *callFileRoutine(builtin: BuiltinSignature, args: ASTNode[]): Generator<InterpreterEvent, any, any> {
+      const file = this.fileArgument(args[0]);
+      if (!file) throw new Error(`'${builtin.name}' expects a File variable.`);
+      switch (builtin.name) {
+          case 'EOF':
+              return this.files.eof(file);
+          case 'Assign':
+              this.files.assign(file, yield* this.evaluate(args[1]));
+              break;
+          case 'Reset':
+              this.files.reset(file);
+              break;
+          case 'Append':
+              this.files.append(file);
+              break;
+          case 'Rewrite':
+              yield { type: 'file', ...this.files.rewrite(file) };
+              break;
+          case 'Close': {
+              const saved = this.files.close(file);
+              if (saved) yield { type: 'file', ...saved };
+              break;
+          }
+      }
+      this.recordChange((args[0] as IdentifierNode).name);
+      return null;
+  }
+
+  // The binding reads and writes straight through to the argument instead of holding a copy
+  private *referenceTo(arg: ASTNode, param: ParamDecl): Generator<InterpreterEvent, RuntimeValue, any> {
+      if (arg.kind !== 'Identifier' && arg.kind !== 'ArrayAccess' && arg.kind !== 'FieldAccess' && arg.kind !== 'Deref') {
+          throw new Error(`'${param.name}' is passed by reference, so its argument must be a variable, array element, record field or pointed-to value.`);
+      }
+      const root = this.rootName(arg);
+      // Through a pointer the argument lives in the heap, so no caller variable changes
+      const rootVar = this.throughPointer(arg) ? null : this.getWritableVariable(root);
+      const { read, write, indexes } = yield* this.locate(arg);
+      this.checkShape(read(), param.dimensions, `parameter '${param.name}'`);
+      const reference = this.describeReference(arg);
+      return {
+          ...this.typeInfo(reference.type, this.paramBounds(param, reference.dims)),
+          get value() { return read(); },
+          set value(v: any) { write(v); },
+          aliases: rootVar ? [{ frameId: this.findScope(root).id, name: root, indexes }, ...(rootVar.aliases ?? [])] : []
+      };
+  }
+
+  // Read and write access to what a reference denotes, resolved once: later changes to its indexes don't move it.
+  // `indexes` is set for array cells, so the debugger can highlight them.
+  private *locate(node: ASTNode): Generator<InterpreterEvent, { read: () => any, write: (v: any) => void, indexes?: number[] }, any> {
+      if (node.kind === 'Identifier') {
+          const variable = this.getVariable(node.name);
+          return { read: () => variable.value, write: v => { variable.value = v; } };
+      }
+      if (node.kind === 'ArrayAccess') {
+          const arrVar = this.getVariable(node.name);
+          this.checkIndexable(arrVar, node.name);
+          const indexes = yield* this.evaluateList(node.indexes);
+          this.getArrayValue(arrVar, node.name, indexes); // A bad index fails here, not at the first access
+          return {
+              read: () => this.getArrayValue(arrVar, node.name, indexes),
+              write: v => this.setArrayValue(arrVar, node.name, indexes, v),
+              indexes: arrVar.type === 'Array' ? this.splitCharIndex(arrVar, indexes).cell : undefined
+          };
+      }
+      if (node.kind === 'FieldAccess') {
+          this.describeReference(node); // Fails unless the target is a record with this field
+          // Evaluating the target yields the live record object, not a copy
+          const record = yield* this.evaluate(node.target);
+          if (node.indexes.length === 0) return { read: () => record[node.field], write: v => { record[node.field] = v; } };
+          const view = this.fieldArray(record, node);
+          const label = this.fieldLabel(node);
+          const indexes = yield* this.evaluateList(node.indexes);
+          this.getArrayValue(view, label, indexes);
+          return { read: () => this.getArrayValue(view, label, indexes), write: v => this.setArrayValue(view, label, indexes, v) };
+      }
+      if (node.kind === 'Deref') {
+          this.describeReference(node); // Fails unless the target is a pointer
+          const cell = this.heapCell(yield* this.evaluate(node.target), node.target);
+          return { read: () => cell.value, write: v => { cell.value = v; } };
+      }
+      throw new Error("Expected a variable, array element or record field.");
+  }
+
+  // Assigns to a record field or a pointed-to value, checked against its declared type
+  private *store(node: FieldAccessNode | DerefNode, value: any): Generator<InterpreterEvent, void, any> {
+      const { write } = yield* this.locate(node);
+      const target = this.describeReference(node);
+      const label = node.kind === 'FieldAccess' ? `field '${this.fieldLabel(node)}'` : `'${formatExpression(node)}'`;
+      write(target.dims.length > 0 ? this.copyArray(value, target.dims, label) : this.checkAssignable(target.type, value, label));
+  }
+
+  // The live cell a pointer points to; following Nil or a freed cell is an error
+  private heapCell(address: number | null, pointer: ASTNode): HeapCell {
+      const name = formatExpression(pointer);
+      if (address === null) throw new Error(`Nil pointer dereference: '${name}' is Nil.`);
+      const cell = this.heap.get(address)!;
+      if (cell.freedLine !== undefined) throw new Error(`Use after free: the cell '${name}' points to was freed on line ${cell.freedLine}.`);
+      return cell;
   }
 
-  private setArrayValue(arr: any[], indexes: number[], value: any) {
-      let current = arr;
-      for (let i = 0; i < indexes.length - 1; i++) {
-          const idx = indexes[i];
-          if (!Array.isArray(current) || idx < 0 || idx >= current.length) throw new Error(`Index ${idx} out of bounds.`);
-          current = current[idx];
+  // p^.value <- 1 changes a heap cell, which no variable owns
+  private throughPointer(node: ASTNode): boolean {
+      if (node.kind === 'Deref') return true;
+      return node.kind === 'FieldAccess' && this.throughPointer(node.target);
+  }
+
+  // Declared type and remaining index ranges of a reference: students[i] is a Student, s.marks a Real [1..3]
+  private describeReference(node: ASTNode): { type: string, dims: ArrayBound[] } {
+      switch (node.kind) {
+          case 'Identifier':
+          case 'ArrayAccess': {
+              const variable = this.getVariable(node.name);
+              const type = variable.arrayType ?? variable.recordType ?? variable.pointerType ?? variable.type;
+              const count = node.kind === 'ArrayAccess' ? node.indexes.length : 0;
+              if (this.picksCharacter(type, variable.dims ?? [], count)) return { type: 'Char', dims: [] };
+              return { type, dims: (variable.dims ?? []).slice(count) };
+          }
+          case 'FieldAccess': {
+              const field = this.fieldOf(this.describeReference(node.target).type, node.field);
+              if (this.picksCharacter(field.varType, field.dimensions, node.indexes.length)) return { type: 'Char', dims: [] };
+              return { type: field.varType, dims: field.dimensions.slice(node.indexes.length) };
+          }
+          case 'Deref': {
+              const pointer = this.describeReference(node.target);
+              if (!pointer.type.startsWith('^') || pointer.dims.length > 0) throw new Error(`'${formatExpression(node.target)}' is not a pointer.`);
+              return { type: pointer.type.slice(1), dims: [] };
+          }
+          default:
+              throw new Error("Expected a variable, array element or record field.");
       }
-      const lastIdx = indexes[indexes.length - 1];
-      if (!Array.isArray(current) || lastIdx < 0 || lastIdx >= current.length) throw new Error(`Index ${lastIdx} out of bounds.`);
-      current[lastIdx] = value;
   }
 
-  private getArrayValue(arr: any[], indexes: number[]): any {
-      let current = arr;
-      for (const idx of indexes) {
-          if (!Array.isArray(current) || idx < 0 || idx >= current.length) throw new Error(`Index ${idx} out of bounds.`);
-          current = current[idx];
+  private fieldOf(recordType: string, field: string): VarDeclNode {
+      const record = this.records.get(recordType.toLowerCase());
+      if (!record) throw new Error(`'${recordType}' is not a record, so it has no field '${field}'.`);
+      const decl = record.fields.find(f => f.names.includes(field));
+      if (!decl) throw new Error(`Record '${record.name}' has no field '${field}'.`);
+      return decl;
+  }
+
+  // An array or String field seen as a variable, so it is indexed like one. Writing a
+  // character replaces the whole string, so the view writes through to the record.
+  private fieldArray(record: any, node: FieldAccessNode): RuntimeValue {
+      const field = this.fieldOf(this.describeReference(node.target).type, node.field);
+      return {
+          type: 'Array',
+          get value() { return record[node.field]; },
+          set value(v: any) { record[node.field] = v; },
+          arrayType: field.varType,
+          dims: field.dimensions
+      };
+  }
+
+  // s.marks for s.marks[i], as named in index errors
+  private fieldLabel(node: FieldAccessNode): string {
+      return `${formatExpression(node.target)}.${node.field}`;
+  }
+
+  // The variable a reference starts from: s for s.marks[2], students for students[i].name
+  private rootName(node: ASTNode): string {
+      if (node.kind === 'FieldAccess' || node.kind === 'Deref') return this.rootName(node.target);
+      if (node.kind === 'Identifier' || node.kind === 'ArrayAccess') return node.name;
+      throw new Error("Expected a variable, array element or record field.");
+  }
+
+  // Source indexes run over each dimension's declared range; the JavaScript arrays underneath are 0-based
+  private toOffsets(arrVar: RuntimeValue, name: string, indexes: number[]): number[] {
+      return indexes.map((idx, i) => {
+          const bound = arrVar.dims?.[i];
+          if (!bound) throw new Error(`'${name}' has only ${arrVar.dims?.length ?? 0} dimension(s).`);
+          if (!Number.isInteger(idx) || idx < bound.low || idx > bound.high) {
+              throw new Error(`Index ${idx} outside ${bound.low}..${bound.high} for ${name}.`);
+          }
+          return idx - bound.low;
+      });
+  }
+
+  // Strings index their characters from 0, one index past the dimensions of an array of them
+  private picksCharacter(type: string, dims: ArrayBound[], indexCount: number): boolean {
+      return type.toLowerCase() === 'string' && indexCount === dims.length + 1;
+  }
+
+  private splitCharIndex(arrVar: RuntimeValue, indexes: number[]): { cell: number[], char?: number } {
+      const dims = arrVar.dims ?? [];
+      if (!this.picksCharacter(arrVar.arrayType ?? arrVar.type, dims, indexes.length)) return { cell: indexes };
+      return { cell: indexes.slice(0, dims.length), char: indexes[dims.length] };
+  }
+
+  private checkIndexable(variable: RuntimeValue, name: string) {
+      if (variable.type !== 'Array' && variable.type !== 'String') throw new Error(`'${name}' is not an array.`);
+  }
+
+  private checkCharIndex(text: string, index: number, name: string) {
+      if (Number.isInteger(index) && index >= 0 && index < text.length) return;
+      throw new Error(text.length === 0
+          ? `Index ${index} is outside ${name}, which is empty.`
+          : `Index ${index} outside 0..${text.length - 1} for ${name}.`);
+  }
+
+  private setArrayValue(arrVar: RuntimeValue, name: string, indexes: number[], value: any) {
+      const { cell, char } = this.splitCharIndex(arrVar, indexes);
+      if (char !== undefined) {
+          // Strings are immutable underneath: the cell gets a copy with one character replaced
+          const text: string = this.getArrayValue(arrVar, name, cell);
+          this.checkCharIndex(text, char, name);
+          value = text.slice(0, char) + value + text.slice(char + 1);
+          if (cell.length === 0) {
+              arrVar.value = value;
+              return;
+          }
+      }
+      const offsets = this.toOffsets(arrVar, name, cell);
+      let current = arrVar.value;
+      for (let i = 0; i < offsets.length - 1; i++) current = current[offsets[i]];
+      current[offsets[offsets.length - 1]] = value;
+  }
+
+  private getArrayValue(arrVar: RuntimeValue, name: string, indexes: number[]): any {
+      const { cell, char } = this.splitCharIndex(arrVar, indexes);
+      let current = arrVar.value;
+      for (const offset of this.toOffsets(arrVar, name, cell)) current = current[offset];
+      if (char === undefined) return current;
+      this.checkCharIndex(current, char, name);
+      return current[char];
+  }
+
+  private *evaluateList(nodes: ASTNode[]): Generator<InterpreterEvent, any[], any> {
+      const values: any[] = [];
+      for (const node of nodes) {
+          values.push(yield* this.evaluate(node));
       }
-      return current;
+      return values;
   }
 
-  private evaluate(node: ASTNode): any {
+  // Expressions are generators too, so a function called from inside an expression
+  // steps, hits breakpoints and performs I/O exactly like one called as a statement.
+  private *evaluate(node: ASTNode): Generator<InterpreterEvent, any, any> {
+    try {
+      return yield* this.evaluateNode(node);
+    } catch (e: any) {
+      throw this.toRuntimeError(e, node, true);
+    }
+  }
+
+  private *evaluateNode(node: ASTNode): Generator<InterpreterEvent, any, any> {
     switch (node.kind) {
       case 'Literal': return node.value;
       case 'Identifier': 
         return this.getVariable(node.name).value;
       case 'ArrayAccess':
         const arrVar = this.getVariable(node.name);
-        if (arrVar.type !== 'Array') throw new Error(`'${node.name}' is not an array.`);
-        const indexes = node.indexes.map(idx => this.evaluate(idx));
-        return this.getArrayValue(arrVar.value, indexes);
+        this.checkIndexable(arrVar, node.name);
+        const indexes = yield* this.evaluateList(node.indexes);
+        return this.getArrayValue(arrVar, node.name, indexes);
+      case 'FieldAccess': {
+        this.describeReference(node); // Fails unless the target is a record with this field
+        const record = yield* this.evaluate(node.target);
+        if (node.indexes.length === 0) return record[node.field];
+        const indexes = yield* this.evaluateList(node.indexes);
+        return this.getArrayValue(this.fieldArray(record, node), this.fieldLabel(node), indexes);
+      }
+      case 'Deref':
+        this.describeReference(node); // Fails unless the target is a pointer
+        return this.heapCell(yield* this.evaluate(node.target), node.target).value;
       case 'Call':
-        // Function Call inside Expression - we can't yield here easily in this synchronous evaluate.
-        // HACK: For educational purposes/simplicity, we assume evaluate is "instant" or we'd need to make evaluate a generator too.
-        // But making evaluate a generator requires rewriting the whole interpreter to yield* evaluate.
-        // Given constraints and complexity: I will throw an error if Function calls are used in expressions for now 
-        // OR I have to assume functions are pure/don't require I/O which allows me to run them synchronously?
-        // No, functions might have loops and steps. 
-        // CORRECT APPROACH: evaluate() should be a generator.
-        // However, that is a massive refactor. 
-        // COMPROMISE: We will support Function calls in expressions but they won't show "Steps" inside them *when called from an expression*.
-        // We will execute them synchronously here.
-        return this.executeFunctionSync(node);
+        return yield* this.executeCall(node.name, node.args, node.line);
       case 'BinaryOp':
-        const l = this.evaluate(node.left);
-        const r = this.evaluate(node.right);
+        const l = yield* this.evaluate(node.left);
+        const r = yield* this.evaluate(node.right);
         switch(node.operator) {
           case TokenType.PLUS: return l + r;
           case TokenType.MINUS: return l - r;
           case TokenType.MULTIPLY: return l * r;
           case TokenType.DIVIDE: return l / r;
-          case TokenType.DIV: return Math.floor(l / r);
-          case TokenType.MOD: return l % r;
+          // Div truncates toward zero and Mod takes the sign of the dividend, as in Pascal
+          case TokenType.DIV: this.integerOperands('Div', l, r); return Math.trunc(l / r);
+          case TokenType.MOD: this.integerOperands('Mod', l, r); return l % r;
           case TokenType.EQUAL: return l === r;
           case TokenType.NOT_EQUAL: return l !== r;
           case TokenType.LESS: return l < r;
@@ -326,94 +992,11 @@ export class Interpreter {
           default: throw new Error("Unknown operator");
         }
       case 'UnaryOp':
-        const val = this.evaluate(node.operand);
+        const val = yield* this.evaluate(node.operand);
         if (node.operator === TokenType.MINUS) return -val;
         if (node.operator === TokenType.NOT) return !val;
         return val;
       default: return null;
     }
   }
-
-  // Synchronous execution for expression function calls (limitations: no I/O, no yields inside)
-  private executeFunctionSync(node: ASTNode & { kind: 'Call' }): any {
-     // This is a "quiet" execution without stepping UI updates
-     const name = node.name;
-     const funcDef = this.functions.get(name.toLowerCase());
-     if (!funcDef) throw new Error(`Unknown function '${name}'.`);
-     
-     const evaluatedArgs = node.args.map(a => this.evaluate(a));
-     const newScope: Scope = { variables: new Map() };
-     for (let i = 0; i < funcDef.params.length; i++) {
-        newScope.variables.set(funcDef.params[i].name, {
-            type: this.normalizeType(funcDef.params[i].type),
-            value: evaluatedArgs[i]
-        });
-     }
-     this.initializeVariables(funcDef.variables, newScope);
-     this.callStack.push(newScope);
-
-     // Run block synchronously
-     try {
-         this.runBlockSync(funcDef.body);
-     } catch (e: any) {
-         if (e.message !== 'RETURN') {
-             this.callStack.pop();
-             throw e;
-         }
-     }
-     
-     const result = this.callStack.pop()?.returnVal;
-     return result;
-  }
-
-  private runBlockSync(block: BlockNode) {
-      for (const stmt of block.statements) {
-          this.runStatementSync(stmt);
-      }
-  }
-
-  private runStatementSync(stmt: ASTNode) {
-      switch(stmt.kind) {
-          case 'Return':
-              const val = stmt.value ? this.evaluate(stmt.value) : null;
-              this.callStack[this.callStack.length - 1].returnVal = val;
-              throw new Error("RETURN");
-          case 'If':
-              if (this.evaluate(stmt.condition)) this.runBlockSync(stmt.thenBranch);
-              else if (stmt.elseBranch) this.runBlockSync(stmt.elseBranch);
-              break;
-          case 'While':
-              while (this.evaluate(stmt.condition)) this.runBlockSync(stmt.body);
-              break;
-          case 'For':
-              const start = this.evaluate(stmt.start);
-              const end = this.evaluate(stmt.end);
-              const step = stmt.step ? this.evaluate(stmt.step) : 1;
-              const loopVar = this.getVariable(stmt.variable);
-              loopVar.value = start;
-              while(true) {
-                const current = loopVar.value;
-                if (step >= 0 && current > end) break;
-                if (step < 0 && current < end) break;
-                this.runBlockSync(stmt.body);
-                loopVar.value += step;
-              }
-              break;
-          case 'Assignment':
-              const v = this.evaluate(stmt.value);
-              if (typeof stmt.target === 'string') {
-                  this.getVariable(stmt.target).value = v;
-              } else {
-                  const arr = this.getVariable(stmt.target.name);
-                  const idxs = stmt.target.indexes.map(i => this.evaluate(i));
-                  this.setArrayValue(arr.value, idxs, v);
-              }
-              break;
-          case 'Call':
-              // Recursive synchronous call
-              this.executeFunctionSync(stmt as any);
-              break;
-          // IO ignored in sync mode for functions in expressions
-      }
-  }
 }
\ No newline at end of file
@@ -1,9 +1,15 @@
 import { Token, TokenType } from '../../types';
 
+interface Position {
+  line: number;
+  column: number;
+}
+
 export class Lexer {
   private source: string;
   private pos: number = 0;
   private line: number = 1;
+  private column: number = 1;
 
   constructor(source: string) {
     this.source = source;
@@ -16,10 +22,20 @@ export class Lexer {
   private advance(): string {
     const char = this.peek();
     this.pos++;
-    if (char === '\n') this.line++;
+    if (char === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
     return char;
   }
 
+  // Tokens are created once fully consumed, so the end is the current position
+  private token(type: TokenType, value: string, start: Position): Token {
+    return { type, value, line: start.line, column: start.column, endLine: this.line, endColumn: this.column };
+  }
+
   private isDigit(char: string): boolean {
     return /[0-9]/.test(char);
   }
@@ -37,6 +53,7 @@ export class Lexer {
 
     while (this.pos < this.source.length) {
       const char = this.peek();
+      const start: Position = { line: this.line, column: this.column };
 
       if (this.isWhitespace(char)) {
         this.advance();
@@ -58,11 +75,11 @@ export class Lexer {
       if (this.isDigit(char)) {
         let numStr = '';
         while (this.isDigit(this.peek())) numStr += this.advance();
-        if (this.peek() === '.') {
+        if (this.peek() === '.' && this.isDigit(this.source[this.pos + 1] ?? '')) { // Not the '..' of a range
           numStr += this.advance();
           while (this.isDigit(this.peek())) numStr += this.advance();
         }
-        tokens.push({ type: TokenType.NUMBER_LITERAL, value: numStr, line: this.line });
+        tokens.push(this.token(TokenType.NUMBER_LITERAL, numStr, start));
         continue;
       }
 
@@ -74,7 +91,7 @@ export class Lexer {
           str += this.advance();
         }
         this.advance(); // consume closing quote
-        tokens.push({ type: TokenType.STRING_LITERAL, value: str, line: this.line });
+        tokens.push(this.token(TokenType.STRING_LITERAL, str, start));
         continue;
       }
 
@@ -92,6 +109,9 @@ export class Lexer {
           'end': TokenType.END,
           'var': TokenType.VAR,
           'const': TokenType.CONST,
+          'type': TokenType.TYPE,
+          'record': TokenType.RECORD,
+          'endrecord': TokenType.ENDRECORD,
           'if': TokenType.IF,
           'then': TokenType.THEN,
           'else': TokenType.ELSE,
@@ -103,13 +123,25 @@ export class Lexer {
           'endfor': TokenType.ENDFOR,
           'while': TokenType.WHILE,
           'endwhile': TokenType.ENDWHILE,
+          'repeat': TokenType.REPEAT,
+          'until': TokenType.UNTIL,
+          'case': TokenType.CASE,
+          'of': TokenType.OF,
+          'endcase': TokenType.ENDCASE,
           'read': TokenType.READ,
           'write': TokenType.WRITE,
+          'allocate': TokenType.ALLOCATE,
+          'free': TokenType.FREE,
+          'assert': TokenType.ASSERT,
+          'test': TokenType.TEST,
+          'endtest': TokenType.ENDTEST,
+          'nil': TokenType.NIL,
           'integer': TokenType.T_INTEGER,
           'real': TokenType.T_REAL,
           'boolean': TokenType.T_BOOLEAN,
           'string': TokenType.T_STRING,
           'char': TokenType.T_CHAR,
+          'file': TokenType.T_FILE,
           'mod': TokenType.MOD,
           'div': TokenType.DIV,
           'and': TokenType.AND,
@@ -119,57 +151,65 @@ export class Lexer {
           'endfunction': TokenType.ENDFUNCTION,
           'procedure': TokenType.PROCEDURE,
           'endprocedure': TokenType.ENDPROCEDURE,
-          'return': TokenType.RETURN
+          'return': TokenType.RETURN,
+          'true': TokenType.TRUE,
+          'false': TokenType.FALSE
         };
 
         if (keywords[lowerId] !== undefined) {
-          tokens.push({ type: keywords[lowerId], value: id, line: this.line });
+          tokens.push(this.token(keywords[lowerId], id, start));
         } else {
-          tokens.push({ type: TokenType.IDENTIFIER, value: id, line: this.line });
+          tokens.push(this.token(TokenType.IDENTIFIER, id, start));
         }
         continue;
       }
 
       // Operators and Punctuation
       switch (char) {
-        case '+': tokens.push({ type: TokenType.PLUS, value: '+', line: this.line }); this.advance(); break;
-        case '-': tokens.push({ type: TokenType.MINUS, value: '-', line: this.line }); this.advance(); break;
-        case '*': tokens.push({ type: TokenType.MULTIPLY, value: '*', line: this.line }); this.advance(); break;
-        case '/': tokens.push({ type: TokenType.DIVIDE, value: '/', line: this.line }); this.advance(); break;
-        case '(': tokens.push({ type: TokenType.LPAREN, value: '(', line: this.line }); this.advance(); break;
-        case ')': tokens.push({ type: TokenType.RPAREN, value: ')', line: this.line }); this.advance(); break;
-        case '[': tokens.push({ type: TokenType.LBRACKET, value: '[', line: this.line }); this.advance(); break;
-        case ']': tokens.push({ type: TokenType.RBRACKET, value: ']', line: this.line }); this.advance(); break;
-        case ',': tokens.push({ type: TokenType.COMMA, value: ',', line: this.line }); this.advance(); break;
+        case '+': this.advance(); tokens.push(this.token(TokenType.PLUS, '+', start)); break;
+        case '-': this.advance(); tokens.push(this.token(TokenType.MINUS, '-', start)); break;
+        case '*': this.advance(); tokens.push(this.token(TokenType.MULTIPLY, '*', start)); break;
+        case '/': this.advance(); tokens.push(this.token(TokenType.DIVIDE, '/', start)); break;
+        case '(': this.advance(); tokens.push(this.token(TokenType.LPAREN, '(', start)); break;
+        case ')': this.advance(); tokens.push(this.token(TokenType.RPAREN, ')', start)); break;
+        case '[': this.advance(); tokens.push(this.token(TokenType.LBRACKET, '[', start)); break;
+        case ']': this.advance(); tokens.push(this.token(TokenType.RBRACKET, ']', start)); break;
+        case ',': this.advance(); tokens.push(this.token(TokenType.COMMA, ',', start)); break;
+        case '^': this.advance(); tokens.push(this.token(TokenType.CARET, '^', start)); break;
         case ':': 
           this.advance();
           if (this.peek() === '=') { // Handle := assignment
              this.advance();
-             tokens.push({ type: TokenType.ASSIGN, value: ':=', line: this.line });
+             tokens.push(this.token(TokenType.ASSIGN, ':=', start));
           } else {
-             tokens.push({ type: TokenType.COLON, value: ':', line: this.line });
+             tokens.push(this.token(TokenType.COLON, ':', start));
           }
           break;
         case '<':
           this.advance();
-          if (this.peek() === '=') { tokens.push({ type: TokenType.LESS_EQUAL, value: '<=', line: this.line }); this.advance(); }
-          else if (this.peek() === '>') { tokens.push({ type: TokenType.NOT_EQUAL, value: '<>', line: this.line }); this.advance(); }
-          else if (this.peek() === '-') { tokens.push({ type: TokenType.ASSIGN, value: '<-', line: this.line }); this.advance(); } // Allow <-
-          else tokens.push({ type: TokenType.LESS, value: '<', line: this.line });
+          if (this.peek() === '=') { this.advance(); tokens.push(this.token(TokenType.LESS_EQUAL, '<=', start)); }
+          else if (this.peek() === '>') { this.advance(); tokens.push(this.token(TokenType.NOT_EQUAL, '<>', start)); }
+          else if (this.peek() === '-') { this.advance(); tokens.push(this.token(TokenType.ASSIGN, '<-', start)); } // Allow <-
+          else tokens.push(this.token(TokenType.LESS, '<', start));
           break;
         case '>':
           this.advance();
-          if (this.peek() === '=') { tokens.push({ type: TokenType.GREATER_EQUAL, value: '>=', line: this.line }); this.advance(); }
-          else tokens.push({ type: TokenType.GREATER, value: '>', line: this.line });
+          if (this.peek() === '=') { this.advance(); tokens.push(this.token(TokenType.GREATER_EQUAL, '>=', start)); }
+          else tokens.push(this.token(TokenType.GREATER, '>', start));
+          break;
+        case '.':
+          this.advance();
+          if (this.peek() === '.') { this.advance(); tokens.push(this.token(TokenType.DOTDOT, '..', start)); }
+          else tokens.push(this.token(TokenType.DOT, '.', start));
           break;
-        case '=': tokens.push({ type: TokenType.EQUAL, value: '=', line: this.line }); this.advance(); break;
-        case '←': tokens.push({ type: TokenType.ASSIGN, value: '←', line: this.line }); this.advance(); break;
+        case '=': this.advance(); tokens.push(this.token(TokenType.EQUAL, '=', start)); break;
+        case '←': this.advance(); tokens.push(this.token(TokenType.ASSIGN, '←', start)); break;
         default:
-          throw new Error(`Unexpected character '${char}' at line ${this.line}`);
+          throw new Error(`Unexpected character '${char}' at line ${this.line}, column ${this.column}`);
       }
     }
 
-    tokens.push({ type: TokenType.EOF, value: '', line: this.line });
+    tokens.push(this.token(TokenType.EOF, '', { line: this.line, column: this.column }));
     return tokens;
   }
 }
\ No newline at end of file
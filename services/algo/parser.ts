@@ -1,8 +1,42 @@
-import { Token, TokenType, ASTNode, ProgramNode, VarDeclNode, BlockNode, FunctionDeclNode, ProcedureDeclNode } from '../../types';
+import { Token, TokenType, ASTNode, ProgramNode, ConstDeclNode, RecordTypeNode, VarDeclNode, ParamDecl, ArrayBound, BlockNode, CaseBranch, CaseLabel, FunctionDeclNode, ProcedureDeclNode, TestDeclNode, Diagnostic, ParseResult, SourceSpan } from '../../types';
+
+class ParseError extends Error {
+  constructor(public span: SourceSpan, message: string) {
+    super(message);
+  }
+}
+
+const tokenSpan = (token: Token): SourceSpan => ({ line: token.line, column: token.column, endLine: token.endLine, endColumn: token.endColumn });
+
+// Tokens a statement or section can start or end with; after an error, parsing resumes at the next one
+const SYNC_TOKENS = [
+  TokenType.IF, TokenType.ENDIF, TokenType.ELSE,
+  TokenType.FOR, TokenType.ENDFOR,
+  TokenType.WHILE, TokenType.ENDWHILE,
+  TokenType.REPEAT, TokenType.UNTIL,
+  TokenType.CASE, TokenType.ENDCASE,
+  TokenType.READ, TokenType.WRITE, TokenType.ALLOCATE, TokenType.FREE, TokenType.ASSERT, TokenType.RETURN,
+  TokenType.BEGIN, TokenType.END, TokenType.CONST, TokenType.TYPE, TokenType.ENDRECORD, TokenType.VAR,
+  TokenType.FUNCTION, TokenType.ENDFUNCTION, TokenType.PROCEDURE, TokenType.ENDPROCEDURE, TokenType.TEST, TokenType.ENDTEST
+];
+
+const BASIC_TYPES = ['integer', 'real', 'boolean', 'string', 'char', 'file'];
+
+const BLOCK_END_TOKENS = [TokenType.ENDIF, TokenType.ENDFOR, TokenType.ENDWHILE, TokenType.UNTIL, TokenType.ENDCASE, TokenType.ENDFUNCTION, TokenType.ENDPROCEDURE, TokenType.ENDTEST];
+
+// A block never runs past these, so a missing 'EndIf' is reported once instead of swallowing the rest of the program
+const SECTION_TOKENS = [TokenType.END, TokenType.ENDFUNCTION, TokenType.ENDPROCEDURE, TokenType.ENDTEST, TokenType.FUNCTION, TokenType.PROCEDURE, TokenType.TEST];
+
+const DECLARATION_TOKENS = [TokenType.FUNCTION, TokenType.PROCEDURE, TokenType.TEST];
 
 export class Parser {
   private tokens: Token[];
   private current: number = 0;
+  private diagnostics: Diagnostic[] = [];
+  private constants: Map<string, any> = new Map(); // Folded values from the Const section, for array sizes
+  private constantTypes: Map<string, string> = new Map(); // Their types, which the values alone don't tell (4 / 2 is Real)
+  private recordTypes: Map<string, string> = new Map(); // Record names from the Type section, by lowercase name
+  private inTypeSection: boolean = false; // Pointers there may name a record declared later, or the record itself
 
   constructor(tokens: Token[]) {
     this.tokens = tokens;
@@ -42,80 +76,324 @@ export class Parser {
 
   private consume(type: TokenType, message: string): Token {
     if (this.check(type)) return this.advance();
-    throw new Error(`Line ${this.peek().line}: ${message}`);
+    throw this.missing(message);
+  }
+
+  // For keywords that are easy to forget and carry no data, report and carry on as if they were there
+  private expect(type: TokenType, message: string) {
+    if (this.check(type)) this.advance();
+    else this.report(this.missing(message));
+  }
+
+  private error(message: string): ParseError {
+    return new ParseError(tokenSpan(this.peek()), message);
+  }
+
+  // Something expected at the end of a line is reported just after the line's last token, not on the next token
+  private missing(message: string): ParseError {
+    const next = this.peek();
+    const prev = this.current > 0 ? this.previous() : next;
+    if (next.line <= prev.endLine) return new ParseError(tokenSpan(next), message);
+    return new ParseError({ line: prev.endLine, column: prev.endColumn, endLine: prev.endLine, endColumn: prev.endColumn + 1 }, message);
+  }
+
+  // From the start of a construct to the last token consumed
+  private spanFrom(start: Token | SourceSpan): SourceSpan {
+    const end = this.previous();
+    return { line: start.line, column: start.column, endLine: end.endLine, endColumn: end.endColumn };
+  }
+
+  private report(e: any) {
+    if (!(e instanceof ParseError)) throw e;
+    // A second error on the same line is almost always a consequence of the first
+    const last = this.diagnostics[this.diagnostics.length - 1];
+    if (last && last.line === e.span.line) return;
+    this.diagnostics.push({ line: e.span.line, message: e.message, span: e.span });
+  }
+
+  // Panic mode: skip to the next statement keyword or the first token on a later line
+  private synchronize(errorLine: number) {
+    while (!this.isAtEnd()) {
+      if (SYNC_TOKENS.includes(this.peek().type) || this.peek().line > errorLine) return;
+      this.advance();
+    }
   }
 
   // --- Grammar Implementation ---
 
-  public parse(): ProgramNode {
-    const startToken = this.consume(TokenType.ALGORITHM, "Expect 'Algorithm' at start of program.");
-    const name = this.consume(TokenType.IDENTIFIER, "Expect algorithm name.").value;
+  // Always returns a program, possibly partial; it should only be run when there are no diagnostics
+  public parse(): ParseResult {
+    const startToken = this.peek();
+    const startLine = startToken.line;
+    let name = '';
+    try {
+      this.consume(TokenType.ALGORITHM, "Expect 'Algorithm' at start of program.");
+      name = this.consume(TokenType.IDENTIFIER, "Expect algorithm name.").value;
+    } catch (e) {
+      this.report(e);
+      this.synchronize(startLine);
+    }
+
+    let constants: ConstDeclNode[] = [];
+    if (this.match(TokenType.CONST)) {
+      constants = this.parseConstDeclarations();
+    }
+    
+    let types: RecordTypeNode[] = [];
+    if (this.match(TokenType.TYPE)) {
+      types = this.parseTypeDeclarations();
+    }
     
     let variables: VarDeclNode[] = [];
     if (this.match(TokenType.VAR)) {
       variables = this.parseVarDeclarations();
     }
 
+    // Test blocks may sit between the routines they check
     const functions: (FunctionDeclNode | ProcedureDeclNode)[] = [];
-    while (this.check(TokenType.FUNCTION) || this.check(TokenType.PROCEDURE)) {
-        if (this.check(TokenType.FUNCTION)) functions.push(this.parseFunction());
-        else functions.push(this.parseProcedure());
+    const tests: TestDeclNode[] = [];
+    while (DECLARATION_TOKENS.includes(this.peek().type)) {
+        try {
+            if (this.check(TokenType.FUNCTION)) functions.push(this.parseFunction());
+            else if (this.check(TokenType.PROCEDURE)) functions.push(this.parseProcedure());
+            else tests.push(this.parseTest());
+        } catch (e) {
+            // A broken header: drop the whole routine rather than parse its body as the main program
+            this.report(e);
+            while (!this.isAtEnd() && !DECLARATION_TOKENS.includes(this.peek().type)) {
+                if (this.match(TokenType.ENDFUNCTION, TokenType.ENDPROCEDURE, TokenType.ENDTEST)) break;
+                this.advance();
+            }
+        }
     }
 
-    this.consume(TokenType.BEGIN, "Expect 'Begin' after declarations.");
+    try {
+      this.consume(TokenType.BEGIN, "Expect 'Begin' after declarations.");
+    } catch (e) {
+      this.report(e);
+    }
     const body = this.parseBlock([TokenType.END]);
-    this.consume(TokenType.END, "Expect 'End' at end of program.");
+    try {
+      this.consume(TokenType.END, "Expect 'End' at end of program.");
+    } catch (e) {
+      this.report(e);
+    }
 
-    return { kind: 'Program', name, variables, functions, body, line: startToken.line };
+    const program: ProgramNode = { kind: 'Program', name, constants, types, variables, functions, tests, body, line: startLine, span: this.spanFrom(startToken) };
+    return { program, diagnostics: this.diagnostics };
   }
 
-  private parseVarDeclarations(): VarDeclNode[] {
-      const decls: VarDeclNode[] = [];
-      
+  private parseConstDeclarations(): ConstDeclNode[] {
+      const decls: ConstDeclNode[] = [];
+
       while (this.check(TokenType.IDENTIFIER)) {
           const firstToken = this.peek();
-          const names: string[] = [];
-          names.push(this.advance().value);
-
-          while (this.match(TokenType.COMMA)) {
-              names.push(this.consume(TokenType.IDENTIFIER, "Expect variable name.").value);
+          try {
+              decls.push(this.parseConstDeclaration());
+          } catch (e) {
+              this.report(e);
+              this.synchronize(firstToken.line);
           }
+      }
+      return decls;
+  }
 
-          this.consume(TokenType.COLON, "Expect ':' after variable names.");
-
-          let dimensions: number[] = [];
-          
-          // Check if it is an array/matrix declaration
-          if (this.check(TokenType.IDENTIFIER) && this.peek().value.toLowerCase() === 'array') {
-              this.advance(); // consume 'array'
-              
-              // Handle multiple dimensions [N], [N][M]
-              do {
-                this.consume(TokenType.LBRACKET, "Expect '[' for array size.");
-                const sizeToken = this.consume(TokenType.NUMBER_LITERAL, "Array size must be a number literal.");
-                dimensions.push(parseInt(sizeToken.value));
-                this.consume(TokenType.RBRACKET, "Expect ']'.");
-              } while (this.check(TokenType.LBRACKET));
-              
-              const ofTok = this.consume(TokenType.IDENTIFIER, "Expect 'of'.");
-              if (ofTok.value.toLowerCase() !== 'of') throw new Error(`Line ${ofTok.line}: Expect 'of'.`);
-          }
+  // N = 10 or PI : Real = 3.14159
+  private parseConstDeclaration(): ConstDeclNode {
+    const nameToken = this.advance();
+    let constType: string | undefined;
+    if (this.match(TokenType.COLON)) {
+        constType = this.parseType();
+    }
+    this.consume(TokenType.EQUAL, "Expect '=' after constant name.");
+    const value = this.parseExpression();
+
+    const folded = this.foldConstant(value);
+    if (folded === undefined) {
+        throw new ParseError(value.span, `Constant '${nameToken.value}' must be a literal or an expression of other constants.`);
+    }
+    this.constants.set(nameToken.value, folded);
+    const valueType = this.foldedType(value);
+    this.constantTypes.set(nameToken.value, valueType);
+
+    return { kind: 'ConstDecl', name: nameToken.value, constType, value, valueType, line: nameToken.line, span: this.spanFrom(nameToken) };
+  }
+
+  private parseTypeDeclarations(): RecordTypeNode[] {
+      const types: RecordTypeNode[] = [];
+      this.inTypeSection = true;
 
-          // Expect Basic Type
-          let varType = '';
-          if (this.match(TokenType.T_INTEGER, TokenType.T_REAL, TokenType.T_BOOLEAN, TokenType.T_STRING, TokenType.T_CHAR)) {
-              varType = this.previous().value; // e.g., "Integer"
+      while (this.check(TokenType.IDENTIFIER)) {
+          try {
+              types.push(this.parseRecordType());
+          } catch (e) {
+              // Skip the rest of the broken record, so its fields aren't read as more type declarations
+              this.report(e);
+              while (!this.isAtEnd() && !this.check(TokenType.VAR) && !this.check(TokenType.BEGIN)
+                  && !this.check(TokenType.FUNCTION) && !this.check(TokenType.PROCEDURE)) {
+                  if (this.match(TokenType.ENDRECORD)) break;
+                  this.advance();
+              }
+          }
+      }
+      this.inTypeSection = false;
+      this.resolvePointerFields(types);
+      return types;
+  }
+
+  // Node = Record next : ^Node EndRecord points at a record that wasn't complete yet; now every name is known
+  private resolvePointerFields(types: RecordTypeNode[]) {
+      for (const field of types.flatMap(type => type.fields)) {
+          const target = field.varType.replace(/^\^+/, '');
+          if (target === field.varType || BASIC_TYPES.includes(target.toLowerCase())) continue;
+          const recordType = this.recordTypes.get(target.toLowerCase());
+          if (recordType) {
+              field.varType = field.varType.slice(0, field.varType.length - target.length) + recordType;
           } else {
-              throw new Error(`Line ${this.peek().line}: Expect valid type (Integer, Real, etc.).`);
+              this.report(new ParseError(field.span, `Unknown type '${target}'.`));
           }
+      }
+  }
 
-          decls.push({ kind: 'VarDecl', names, varType, dimensions, line: firstToken.line });
+  // Student = Record
+  //   name : String
+  //   grade : Real
+  // EndRecord
+  private parseRecordType(): RecordTypeNode {
+    const nameToken = this.advance();
+    this.consume(TokenType.EQUAL, "Expect '=' after type name.");
+    this.consume(TokenType.RECORD, "Expect 'Record'.");
+    const fields = this.parseVarDeclarations();
+    this.consume(TokenType.ENDRECORD, `Expect 'EndRecord' to close the 'Record' on line ${nameToken.line}.`);
+
+    const key = nameToken.value.toLowerCase();
+    if (this.recordTypes.has(key)) throw new ParseError(tokenSpan(nameToken), `Type '${nameToken.value}' is already declared.`);
+    // Registered only once complete, so a record can't contain itself
+    this.recordTypes.set(key, nameToken.value);
+
+    return { kind: 'RecordType', name: nameToken.value, fields, line: nameToken.line, span: this.spanFrom(nameToken) };
+  }
+
+  // Value of an expression made only of literals and earlier constants, or undefined if it is not one
+  private foldConstant(node: ASTNode): any {
+    switch (node.kind) {
+      case 'Literal': return node.valueType === 'Nil' ? undefined : node.value; // Pointers can't be constants
+      case 'Identifier': return this.constants.get(node.name);
+      case 'UnaryOp': {
+        const operand = this.foldConstant(node.operand);
+        if (node.operator === TokenType.MINUS && typeof operand === 'number') return -operand;
+        return undefined;
+      }
+      case 'BinaryOp': {
+        const l = this.foldConstant(node.left);
+        const r = this.foldConstant(node.right);
+        if (node.operator === TokenType.PLUS && typeof l === 'string' && typeof r === 'string') return l + r;
+        if (typeof l !== 'number' || typeof r !== 'number') return undefined;
+        switch (node.operator) {
+          case TokenType.PLUS: return l + r;
+          case TokenType.MINUS: return l - r;
+          case TokenType.MULTIPLY: return l * r;
+          case TokenType.DIVIDE: return r === 0 ? undefined : l / r;
+          case TokenType.DIV: return r === 0 ? undefined : Math.trunc(l / r);
+          case TokenType.MOD: return r === 0 ? undefined : l % r;
+          default: return undefined;
+        }
+      }
+      default: return undefined;
+    }
+  }
+
+  // Type of an expression foldConstant accepted, by the same rules as the checker
+  private foldedType(node: ASTNode): string {
+    switch (node.kind) {
+      case 'Literal': return node.valueType === 'String' && node.value.length === 1 ? 'Char' : node.valueType;
+      case 'Identifier': return this.constantTypes.get(node.name)!;
+      case 'UnaryOp': return this.foldedType(node.operand);
+      case 'BinaryOp': {
+        const l = this.foldedType(node.left);
+        const r = this.foldedType(node.right);
+        if (node.operator === TokenType.DIVIDE) return 'Real';
+        if (node.operator === TokenType.DIV || node.operator === TokenType.MOD) return 'Integer';
+        if (l === 'Integer' && r === 'Integer') return 'Integer';
+        return l === 'Real' || r === 'Real' ? 'Real' : 'String';
+      }
+      default: return 'Real';
+    }
+  }
+
+  private parseVarDeclarations(): VarDeclNode[] {
+      const decls: VarDeclNode[] = [];
+      
+      while (this.check(TokenType.IDENTIFIER)) {
+          const firstToken = this.peek();
+          try {
+              decls.push(this.parseVarDeclaration());
+          } catch (e) {
+              this.report(e);
+              this.synchronize(firstToken.line);
+          }
       }
       return decls;
   }
 
+  private parseVarDeclaration(): VarDeclNode {
+    const firstToken = this.peek();
+    const names: string[] = [];
+    names.push(this.advance().value);
+
+    while (this.match(TokenType.COMMA)) {
+        names.push(this.consume(TokenType.IDENTIFIER, "Expect variable name.").value);
+    }
+
+    this.consume(TokenType.COLON, "Expect ':' after variable names.");
+
+    const dimensions = this.parseArrayDimensions(false) as ArrayBound[];
+
+    const varType = this.parseType("Expect valid type (Integer, Real, etc.).");
+
+    return { kind: 'VarDecl', names, varType, dimensions, line: firstToken.line, span: this.spanFrom(firstToken) };
+  }
+
+  // The `Array[N][M] of` prefix of a type, empty for scalars. Parameter and return types may
+  // leave a size open with `[]`, taking whatever the argument has.
+  private parseArrayDimensions(allowOpen: boolean): (ArrayBound | null)[] {
+    const dimensions: (ArrayBound | null)[] = [];
+    if (!(this.check(TokenType.IDENTIFIER) && this.peek().value.toLowerCase() === 'array')) return dimensions;
+    this.advance(); // consume 'array'
+
+    // Handle multiple dimensions [N], [N][M], and explicit ranges [1..N]
+    do {
+      this.consume(TokenType.LBRACKET, "Expect '[' for array size.");
+      if (allowOpen && this.match(TokenType.RBRACKET)) {
+        dimensions.push(null);
+        continue;
+      }
+      const first = this.parseExpression();
+      if (this.match(TokenType.DOTDOT)) {
+        const lastNode = this.parseExpression();
+        const [low, high] = [this.foldConstant(first), this.foldConstant(lastNode)];
+        if (!Number.isInteger(low) || !Number.isInteger(high)) {
+          throw new ParseError(this.spanFrom(first.span), "Array bounds must be Integer literals or constants.");
+        }
+        if (low > high) throw new ParseError(this.spanFrom(first.span), `Array range ${low}..${high} is empty.`);
+        dimensions.push({ low, high });
+      } else {
+        const size = this.foldConstant(first);
+        if (!Number.isInteger(size) || size < 1) {
+          throw new ParseError(first.span, "Array size must be a positive Integer literal or constant.");
+        }
+        dimensions.push({ low: 0, high: size - 1 });
+      }
+      this.consume(TokenType.RBRACKET, "Expect ']'.");
+    } while (this.check(TokenType.LBRACKET));
+
+    this.consume(TokenType.OF, "Expect 'of'.");
+    return dimensions;
+  }
+
   private parseFunction(): FunctionDeclNode {
-    const line = this.consume(TokenType.FUNCTION, "Expect 'Function'.").line;
+    const startToken = this.consume(TokenType.FUNCTION, "Expect 'Function'.");
+    const line = startToken.line;
     const name = this.consume(TokenType.IDENTIFIER, "Expect function name.").value;
     
     this.consume(TokenType.LPAREN, "Expect '('.");
@@ -123,6 +401,7 @@ export class Parser {
     this.consume(TokenType.RPAREN, "Expect ')'.");
     
     this.consume(TokenType.COLON, "Expect ':' before return type.");
+    const returnDimensions = this.parseArrayDimensions(true);
     const returnType = this.parseType();
 
     let variables: VarDeclNode[] = [];
@@ -134,11 +413,12 @@ export class Parser {
     const body = this.parseBlock([TokenType.ENDFUNCTION]);
     this.consume(TokenType.ENDFUNCTION, "Expect 'EndFunction'.");
     
-    return { kind: 'FunctionDecl', name, params, returnType, variables, body, line };
+    return { kind: 'FunctionDecl', name, params, returnType, returnDimensions, variables, body, line, span: this.spanFrom(startToken) };
   }
 
   private parseProcedure(): ProcedureDeclNode {
-    const line = this.consume(TokenType.PROCEDURE, "Expect 'Procedure'.").line;
+    const startToken = this.consume(TokenType.PROCEDURE, "Expect 'Procedure'.");
+    const line = startToken.line;
     const name = this.consume(TokenType.IDENTIFIER, "Expect procedure name.").value;
     
     this.consume(TokenType.LPAREN, "Expect '('.");
@@ -154,36 +434,92 @@ export class Parser {
     const body = this.parseBlock([TokenType.ENDPROCEDURE]);
     this.consume(TokenType.ENDPROCEDURE, "Expect 'EndProcedure'.");
     
-    return { kind: 'ProcedureDecl', name, params, variables, body, line };
+    return { kind: 'ProcedureDecl', name, params, variables, body, line, span: this.spanFrom(startToken) };
   }
 
-  private parseParams(): { name: string, type: string }[] {
-      const params: { name: string, type: string }[] = [];
+  private parseTest(): TestDeclNode {
+    const startToken = this.consume(TokenType.TEST, "Expect 'Test'.");
+    const name = this.consume(TokenType.STRING_LITERAL, "Expect the test's name in quotes, as in Test \"sorts an array\".").value;
+
+    let variables: VarDeclNode[] = [];
+    if (this.match(TokenType.VAR)) {
+        variables = this.parseVarDeclarations();
+    }
+
+    this.consume(TokenType.BEGIN, "Expect 'Begin'.");
+    const body = this.parseBlock([TokenType.ENDTEST]);
+    this.consume(TokenType.ENDTEST, "Expect 'EndTest'.");
+
+    return { kind: 'TestDecl', name, variables, body, line: startToken.line, span: this.spanFrom(startToken) };
+  }
+
+  private parseParams(): ParamDecl[] {
+      const params: ParamDecl[] = [];
       if (!this.check(TokenType.RPAREN)) {
           do {
+              const byRef = this.match(TokenType.VAR) || this.matchInOut();
               const name = this.consume(TokenType.IDENTIFIER, "Expect parameter name.").value;
               this.consume(TokenType.COLON, "Expect ':'.");
+              const dimensions = this.parseArrayDimensions(true);
               const type = this.parseType();
-              params.push({ name, type });
+              params.push({ name, type, byRef, dimensions });
           } while (this.match(TokenType.COMMA));
       }
       return params;
   }
 
-  private parseType(): string {
-      if (this.match(TokenType.T_INTEGER, TokenType.T_REAL, TokenType.T_BOOLEAN, TokenType.T_STRING, TokenType.T_CHAR)) {
+  // The French in/out marker 'E/S' (Entrée/Sortie), lexed as E / S
+  private matchInOut(): boolean {
+      const [e, slash, s] = this.tokens.slice(this.current, this.current + 3);
+      if (e?.type === TokenType.IDENTIFIER && e.value.toUpperCase() === 'E' && slash?.type === TokenType.DIVIDE
+          && s?.type === TokenType.IDENTIFIER && s.value.toUpperCase() === 'S') {
+          this.current += 3;
+          return true;
+      }
+      return false;
+  }
+
+  // A basic type, a record declared in the Type section (returned with its declared spelling),
+  // or a pointer to either, written ^Node
+  private parseType(message: string = "Expect type."): string {
+      if (this.match(TokenType.CARET)) {
+          if (this.inTypeSection && this.check(TokenType.IDENTIFIER) && !this.recordTypes.has(this.peek().value.toLowerCase())) {
+              return `^${this.advance().value}`; // Checked by resolvePointerFields once the section ends
+          }
+          return `^${this.parseType(message)}`;
+      }
+      if (this.match(TokenType.T_INTEGER, TokenType.T_REAL, TokenType.T_BOOLEAN, TokenType.T_STRING, TokenType.T_CHAR, TokenType.T_FILE)) {
           return this.previous().value;
       }
-      throw new Error(`Line ${this.peek().line}: Expect type.`);
+      // A name on the next line starts the next declaration, so the type is missing rather than unknown
+      if (this.check(TokenType.IDENTIFIER) && this.peek().line <= this.previous().endLine) {
+          const recordType = this.recordTypes.get(this.peek().value.toLowerCase());
+          if (!recordType) throw this.error(`Unknown type '${this.peek().value}'.`);
+          this.advance();
+          return recordType;
+      }
+      throw this.missing(message);
   }
 
-  private parseBlock(endTokens: TokenType[]): BlockNode {
-    const startLine = this.peek().line;
+  // `isEnd` stops the block where no single token marks its end, like before the next Case label
+  private parseBlock(endTokens: TokenType[], isEnd: () => boolean = () => false): BlockNode {
+    const startToken = this.peek();
     const statements: ASTNode[] = [];
-    while (!this.isAtEnd() && !endTokens.some(t => this.check(t)) && !this.check(TokenType.ELSE)) {
-      statements.push(this.parseStatement());
+    while (!this.isAtEnd() && !endTokens.some(t => this.check(t)) && !this.check(TokenType.ELSE) && !SECTION_TOKENS.includes(this.peek().type) && !isEnd()) {
+      const start = this.peek();
+      try {
+        statements.push(this.parseStatement());
+      } catch (e) {
+        this.report(e);
+        if (this.peek() === start) this.advance(); // Always make progress, e.g. past a stray 'EndFor'
+        this.synchronize(start.line);
+      }
     }
-    return { kind: 'Block', statements, line: startLine };
+    // An empty block has no tokens of its own, so it is an empty range where it would start
+    const span = statements.length > 0
+      ? { ...statements[0].span, endLine: statements[statements.length - 1].span.endLine, endColumn: statements[statements.length - 1].span.endColumn }
+      : { line: startToken.line, column: startToken.column, endLine: startToken.line, endColumn: startToken.column };
+    return { kind: 'Block', statements, line: startToken.line, span };
   }
 
   private parseStatement(): ASTNode {
@@ -191,11 +527,15 @@ export class Parser {
     if (this.match(TokenType.WRITE)) return this.parseWrite();
     if (this.match(TokenType.IF)) return this.parseIf();
     if (this.match(TokenType.WHILE)) return this.parseWhile();
+    if (this.match(TokenType.REPEAT)) return this.parseRepeat();
+    if (this.match(TokenType.CASE)) return this.parseCase();
     if (this.match(TokenType.FOR)) return this.parseFor();
+    if (this.match(TokenType.ALLOCATE, TokenType.FREE)) return this.parseAllocation();
+    if (this.match(TokenType.ASSERT)) return this.parseAssert();
     if (this.match(TokenType.RETURN)) {
-        const line = this.previous().line;
+        const startToken = this.previous();
         const value = this.parseExpression();
-        return { kind: 'Return', value, line };
+        return { kind: 'Return', value, line: startToken.line, span: this.spanFrom(startToken) };
     }
 
     // Ambiguity: Assignment or Call?
@@ -211,12 +551,13 @@ export class Parser {
        }
     }
 
-    throw new Error(`Line ${this.peek().line}: Unexpected token '${this.peek().value}'.`);
+    if (BLOCK_END_TOKENS.includes(this.peek().type)) throw this.error(`Unexpected '${this.peek().value}' without a matching block.`);
+    throw this.error(`Unexpected token '${this.peek().value}'.`);
   }
 
   private parseCallStatement(): ASTNode {
-      const line = this.peek().line;
-      const name = this.consume(TokenType.IDENTIFIER, "Expect identifier.").value;
+      const nameToken = this.consume(TokenType.IDENTIFIER, "Expect identifier.");
+      const name = nameToken.value;
       this.consume(TokenType.LPAREN, "Expect '('.");
       const args: ASTNode[] = [];
       if (!this.check(TokenType.RPAREN)) {
@@ -225,11 +566,11 @@ export class Parser {
           } while (this.match(TokenType.COMMA));
       }
       this.consume(TokenType.RPAREN, "Expect ')'.");
-      return { kind: 'Call', name, args, line };
+      return { kind: 'Call', name, args, line: nameToken.line, span: this.spanFrom(nameToken) };
   }
 
   private parseRead(): ASTNode {
-    const line = this.previous().line; // Captured from match(READ)
+    const startToken = this.previous(); // Captured from match(READ)
     this.consume(TokenType.LPAREN, "Expect '('.");
     const args: ASTNode[] = [];
     if (!this.check(TokenType.RPAREN)) {
@@ -238,11 +579,11 @@ export class Parser {
       } while (this.match(TokenType.COMMA));
     }
     this.consume(TokenType.RPAREN, "Expect ')'.");
-    return { kind: 'IO', type: 'Read', args, line };
+    return { kind: 'IO', type: 'Read', args, line: startToken.line, span: this.spanFrom(startToken) };
   }
 
   private parseWrite(): ASTNode {
-    const line = this.previous().line; // Captured from match(WRITE)
+    const startToken = this.previous(); // Captured from match(WRITE)
     this.consume(TokenType.LPAREN, "Expect '('.");
     const args: ASTNode[] = [];
     if (!this.check(TokenType.RPAREN)) {
@@ -251,7 +592,24 @@ export class Parser {
       } while (this.match(TokenType.COMMA));
     }
     this.consume(TokenType.RPAREN, "Expect ')'.");
-    return { kind: 'IO', type: 'Write', args, line };
+    return { kind: 'IO', type: 'Write', args, line: startToken.line, span: this.spanFrom(startToken) };
+  }
+
+  private parseAllocation(): ASTNode {
+    const startToken = this.previous(); // Captured from match(ALLOCATE, FREE)
+    this.consume(TokenType.LPAREN, "Expect '('.");
+    const target = this.parseReference();
+    this.consume(TokenType.RPAREN, "Expect ')'.");
+    return { kind: 'Allocation', type: startToken.type === TokenType.ALLOCATE ? 'Allocate' : 'Free', target, line: startToken.line, span: this.spanFrom(startToken) };
+  }
+
+  private parseAssert(): ASTNode {
+    const startToken = this.previous(); // Captured from match(ASSERT)
+    this.consume(TokenType.LPAREN, "Expect '('.");
+    const condition = this.parseExpression();
+    const message = this.match(TokenType.COMMA) ? this.parseExpression() : undefined;
+    this.consume(TokenType.RPAREN, "Expect ')'.");
+    return { kind: 'Assert', condition, message, line: startToken.line, span: this.spanFrom(startToken) };
   }
 
   private parseAssignment(): ASTNode {
@@ -264,30 +622,65 @@ export class Parser {
     let targetName: string | any = target;
     if (target.kind === 'Identifier') targetName = target.name;
 
-    return { kind: 'Assignment', target: targetName, value, line };
+    return { kind: 'Assignment', target: targetName, value, line, span: this.spanFrom(target.span) };
   }
 
   private parseReference(): ASTNode {
       const nameToken = this.consume(TokenType.IDENTIFIER, "Expect identifier.");
       
-      // Handle array access, potentially multi-dimensional [i][j]
+      const indexes = this.parseIndexes();
+      let reference: ASTNode = indexes.length > 0
+          ? { kind: 'ArrayAccess', name: nameToken.value, indexes, line: nameToken.line, span: this.spanFrom(nameToken) }
+          : { kind: 'Identifier', name: nameToken.value, line: nameToken.line, span: tokenSpan(nameToken) };
+
+      // Record fields and dereferences, possibly nested or indexed: s.name, students[i].marks[2], head^.next^.value
+      while (this.match(TokenType.DOT, TokenType.CARET)) {
+          if (this.previous().type === TokenType.CARET) {
+              reference = { kind: 'Deref', target: reference, line: nameToken.line, span: this.spanFrom(nameToken) };
+              continue;
+          }
+          const field = this.consume(TokenType.IDENTIFIER, "Expect field name after '.'.").value;
+          const fieldIndexes = this.parseIndexes();
+          reference = { kind: 'FieldAccess', target: reference, field, indexes: fieldIndexes, line: nameToken.line, span: this.spanFrom(nameToken) };
+      }
+      return reference;
+  }
+
+  // Array access, potentially multi-dimensional [i][j]
+  private parseIndexes(): ASTNode[] {
       const indexes: ASTNode[] = [];
       while (this.match(TokenType.LBRACKET)) {
           indexes.push(this.parseExpression());
           this.consume(TokenType.RBRACKET, "Expect ']'.");
       }
-      
-      if (indexes.length > 0) {
-          return { kind: 'ArrayAccess', name: nameToken.value, indexes, line: nameToken.line } as any;
-      }
-      
-      return { kind: 'Identifier', name: nameToken.value, line: nameToken.line };
+      return indexes;
+  }
+
+  // A broken header is reported and the rest of its line skipped, so the body and the block's
+  // closing keyword are still parsed as one block instead of surfacing as stray statements.
+  // The program won't run with the error, so what stands in for the header doesn't matter.
+  private parseHeader<T>(line: number, parse: () => T, fallback: () => T): T {
+    try {
+      return parse();
+    } catch (e) {
+      this.report(e);
+      while (!this.isAtEnd() && this.peek().line <= line) this.advance();
+      return fallback();
+    }
+  }
+
+  private placeholder(start: Token): ASTNode {
+    return { kind: 'Literal', value: true, valueType: 'Boolean', line: start.line, span: tokenSpan(start) };
   }
 
   private parseIf(): ASTNode {
-    const line = this.previous().line; // match(IF)
-    const condition = this.parseExpression();
-    this.consume(TokenType.THEN, "Expect 'Then'.");
+    const startToken = this.previous(); // match(IF)
+    const line = startToken.line;
+    const condition = this.parseHeader(line, () => {
+      const condition = this.parseExpression();
+      this.expect(TokenType.THEN, "Expect 'Then'.");
+      return condition;
+    }, () => this.placeholder(startToken));
     const thenBranch = this.parseBlock([TokenType.ELSE, TokenType.ENDIF]);
     let elseBranch = undefined;
     
@@ -295,37 +688,118 @@ export class Parser {
       elseBranch = this.parseBlock([TokenType.ENDIF]);
     }
     
-    this.consume(TokenType.ENDIF, "Expect 'EndIf'.");
-    return { kind: 'If', condition, thenBranch, elseBranch, line };
+    this.consume(TokenType.ENDIF, `Expect 'EndIf' to close the 'If' on line ${line}.`);
+    return { kind: 'If', condition, thenBranch, elseBranch, line, span: this.spanFrom(startToken) };
   }
 
   private parseWhile(): ASTNode {
-    const line = this.previous().line; // match(WHILE)
-    const condition = this.parseExpression();
-    this.consume(TokenType.DO, "Expect 'Do'.");
+    const startToken = this.previous(); // match(WHILE)
+    const line = startToken.line;
+    const condition = this.parseHeader(line, () => {
+      const condition = this.parseExpression();
+      this.expect(TokenType.DO, "Expect 'Do'.");
+      return condition;
+    }, () => this.placeholder(startToken));
     const body = this.parseBlock([TokenType.ENDWHILE]);
-    this.consume(TokenType.ENDWHILE, "Expect 'EndWhile'.");
-    return { kind: 'While', condition, body, line };
+    this.consume(TokenType.ENDWHILE, `Expect 'EndWhile' to close the 'While' on line ${line}.`);
+    return { kind: 'While', condition, body, line, span: this.spanFrom(startToken) };
   }
 
-  private parseFor(): ASTNode {
-    const line = this.previous().line; // match(FOR)
-    const variable = this.consume(TokenType.IDENTIFIER, "Expect loop variable.").value;
-    this.consume(TokenType.ASSIGN, "Expect assignment.");
-    const start = this.parseExpression();
-    this.consume(TokenType.TO, "Expect 'to'.");
-    const end = this.parseExpression();
-    
-    let step: ASTNode | undefined;
-    if (this.match(TokenType.STEP)) {
-      step = this.parseExpression();
+  private parseRepeat(): ASTNode {
+    const startToken = this.previous(); // match(REPEAT)
+    const line = startToken.line;
+    const body = this.parseBlock([TokenType.UNTIL]);
+    this.consume(TokenType.UNTIL, `Expect 'Until' to close the 'Repeat' on line ${line}.`);
+    const condition = this.parseExpression();
+    return { kind: 'Repeat', body, condition, line, span: this.spanFrom(startToken) };
+  }
+
+  private parseCase(): ASTNode {
+    const startToken = this.previous(); // match(CASE)
+    const line = startToken.line;
+    const selector = this.parseHeader(line, () => {
+      const selector = this.parseExpression();
+      this.consume(TokenType.OF, "Expect 'Of' after the Case expression.");
+      return selector;
+    }, () => this.placeholder(startToken));
+
+    const branches: CaseBranch[] = [];
+    while (this.isCaseLabelStart()) {
+      const labelStart = this.peek();
+      const labels: CaseLabel[] = [];
+      try {
+        do {
+          labels.push(this.parseCaseLabel());
+        } while (this.match(TokenType.COMMA));
+        this.consume(TokenType.COLON, "Expect ':' after Case labels.");
+      } catch (e) {
+        // Keep the branch body, so one bad label doesn't leave a stray 'EndCase'
+        this.report(e);
+        this.synchronize(labelStart.line);
+      }
+      const body = this.parseBlock([TokenType.ENDCASE], () => this.isCaseLabelStart());
+      branches.push({ labels, body });
     }
-    
-    this.consume(TokenType.DO, "Expect 'do'.");
+
+    let elseBranch: BlockNode | undefined;
+    if (this.match(TokenType.ELSE)) {
+      this.match(TokenType.COLON); // 'Else:' reads naturally after labels, so it is accepted too
+      elseBranch = this.parseBlock([TokenType.ENDCASE]);
+    }
+
+    this.consume(TokenType.ENDCASE, `Expect 'EndCase' to close the 'Case' on line ${line}.`);
+    return { kind: 'Case', selector, branches, elseBranch, line, span: this.spanFrom(startToken) };
+  }
+
+  // Labels start with a literal, a minus sign or a constant followed by ':', ',' or '..',
+  // which no statement does; 'x <- 1' uses an assignment token, not ':'
+  private isCaseLabelStart(): boolean {
+    if (this.check(TokenType.NUMBER_LITERAL) || this.check(TokenType.STRING_LITERAL) || this.check(TokenType.MINUS)
+        || this.check(TokenType.TRUE) || this.check(TokenType.FALSE)) return true;
+    const next = this.tokens[this.current + 1];
+    return this.check(TokenType.IDENTIFIER) && next !== undefined
+        && (next.type === TokenType.COLON || next.type === TokenType.COMMA || next.type === TokenType.DOTDOT);
+  }
+
+  // A constant value (3, 'a', N) or range (1..5, 'a'..'z')
+  private parseCaseLabel(): CaseLabel {
+    const startToken = this.peek();
+    const low = this.foldConstant(this.parseExpression());
+    let high: any;
+    let isRange = false;
+    if (this.match(TokenType.DOTDOT)) {
+      isRange = true;
+      high = this.foldConstant(this.parseExpression());
+    }
+    const span = this.spanFrom(startToken);
+    if (low === undefined || (isRange && high === undefined)) {
+      throw new ParseError(span, "Case labels must be literals or constants.");
+    }
+    return { low, high, span };
+  }
+
+  private parseFor(): ASTNode {
+    const startToken = this.previous(); // match(FOR)
+    const line = startToken.line;
+    const { variable, start, end, step } = this.parseHeader(line, () => {
+      const variable = this.consume(TokenType.IDENTIFIER, "Expect loop variable.").value;
+      this.consume(TokenType.ASSIGN, "Expect assignment.");
+      const start = this.parseExpression();
+      this.consume(TokenType.TO, "Expect 'to'.");
+      const end = this.parseExpression();
+      
+      let step: ASTNode | undefined;
+      if (this.match(TokenType.STEP)) {
+        step = this.parseExpression();
+      }
+      
+      this.expect(TokenType.DO, "Expect 'do'.");
+      return { variable, start, end, step };
+    }, () => ({ variable: '', start: this.placeholder(startToken), end: this.placeholder(startToken), step: undefined }));
     const body = this.parseBlock([TokenType.ENDFOR]);
-    this.consume(TokenType.ENDFOR, "Expect 'EndFor'.");
+    this.consume(TokenType.ENDFOR, `Expect 'EndFor' to close the 'For' on line ${line}.`);
     
-    return { kind: 'For', variable, start, end, step, body, line };
+    return { kind: 'For', variable, start, end, step, body, line, span: this.spanFrom(startToken) };
   }
 
   // --- Expressions ---
@@ -338,9 +812,8 @@ export class Parser {
     let expr = this.parseLogicAnd();
     while (this.match(TokenType.OR)) {
       const operator = this.previous().type;
-      const line = this.previous().line;
       const right = this.parseLogicAnd();
-      expr = { kind: 'BinaryOp', left: expr, operator, right, line };
+      expr = { kind: 'BinaryOp', left: expr, operator, right, line: expr.line, span: this.spanFrom(expr.span) };
     }
     return expr;
   }
@@ -349,9 +822,8 @@ export class Parser {
     let expr = this.parseEquality();
     while (this.match(TokenType.AND)) {
       const operator = this.previous().type;
-      const line = this.previous().line;
       const right = this.parseEquality();
-      expr = { kind: 'BinaryOp', left: expr, operator, right, line };
+      expr = { kind: 'BinaryOp', left: expr, operator, right, line: expr.line, span: this.spanFrom(expr.span) };
     }
     return expr;
   }
@@ -360,9 +832,8 @@ export class Parser {
     let expr = this.parseComparison();
     while (this.match(TokenType.EQUAL, TokenType.NOT_EQUAL)) {
       const operator = this.previous().type;
-      const line = this.previous().line;
       const right = this.parseComparison();
-      expr = { kind: 'BinaryOp', left: expr, operator, right, line };
+      expr = { kind: 'BinaryOp', left: expr, operator, right, line: expr.line, span: this.spanFrom(expr.span) };
     }
     return expr;
   }
@@ -371,9 +842,8 @@ export class Parser {
     let expr = this.parseTerm();
     while (this.match(TokenType.GREATER, TokenType.GREATER_EQUAL, TokenType.LESS, TokenType.LESS_EQUAL)) {
       const operator = this.previous().type;
-      const line = this.previous().line;
       const right = this.parseTerm();
-      expr = { kind: 'BinaryOp', left: expr, operator, right, line };
+      expr = { kind: 'BinaryOp', left: expr, operator, right, line: expr.line, span: this.spanFrom(expr.span) };
     }
     return expr;
   }
@@ -382,9 +852,8 @@ export class Parser {
     let expr = this.parseFactor();
     while (this.match(TokenType.PLUS, TokenType.MINUS)) {
       const operator = this.previous().type;
-      const line = this.previous().line;
       const right = this.parseFactor();
-      expr = { kind: 'BinaryOp', left: expr, operator, right, line };
+      expr = { kind: 'BinaryOp', left: expr, operator, right, line: expr.line, span: this.spanFrom(expr.span) };
     }
     return expr;
   }
@@ -393,9 +862,8 @@ export class Parser {
     let expr = this.parseUnary();
     while (this.match(TokenType.MULTIPLY, TokenType.DIVIDE, TokenType.MOD, TokenType.DIV)) {
       const operator = this.previous().type;
-      const line = this.previous().line;
       const right = this.parseUnary();
-      expr = { kind: 'BinaryOp', left: expr, operator, right, line };
+      expr = { kind: 'BinaryOp', left: expr, operator, right, line: expr.line, span: this.spanFrom(expr.span) };
     }
     return expr;
   }
@@ -403,24 +871,32 @@ export class Parser {
   private parseUnary(): ASTNode {
     if (this.match(TokenType.NOT, TokenType.MINUS)) {
       const operator = this.previous().type;
-      const line = this.previous().line;
+      const startToken = this.previous();
       const operand = this.parseUnary();
-      return { kind: 'UnaryOp', operator, operand, line };
+      return { kind: 'UnaryOp', operator, operand, line: startToken.line, span: this.spanFrom(startToken) };
     }
     return this.parsePrimary();
   }
 
   private parsePrimary(): ASTNode {
     if (this.match(TokenType.NUMBER_LITERAL)) {
-      return { kind: 'Literal', value: parseFloat(this.previous().value), valueType: 'Real', line: this.previous().line };
+      const text = this.previous().value;
+      return { kind: 'Literal', value: parseFloat(text), valueType: text.includes('.') ? 'Real' : 'Integer', line: this.previous().line, span: tokenSpan(this.previous()) };
+    }
+    if (this.match(TokenType.TRUE, TokenType.FALSE)) {
+      return { kind: 'Literal', value: this.previous().type === TokenType.TRUE, valueType: 'Boolean', line: this.previous().line, span: tokenSpan(this.previous()) };
+    }
+    if (this.match(TokenType.NIL)) {
+      return { kind: 'Literal', value: null, valueType: 'Nil', line: this.previous().line, span: tokenSpan(this.previous()) };
     }
     if (this.match(TokenType.STRING_LITERAL)) {
-      return { kind: 'Literal', value: this.previous().value, valueType: 'String', line: this.previous().line };
+      return { kind: 'Literal', value: this.previous().value, valueType: 'String', line: this.previous().line, span: tokenSpan(this.previous()) };
     }
     if (this.match(TokenType.LPAREN)) {
+      const lparen = this.previous();
       const expr = this.parseExpression();
       this.consume(TokenType.RPAREN, "Expect ')' after expression.");
-      return expr;
+      return { ...expr, span: this.spanFrom(lparen) }; // Include the parentheses
     }
     
     // Check for Function Call or Variable
@@ -432,6 +908,6 @@ export class Parser {
         return this.parseReference();
     }
 
-    throw new Error(`Line ${this.peek().line}: Expect expression.`);
+    throw this.missing("Expect expression.");
   }
 }
\ No newline at end of file
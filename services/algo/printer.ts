@@ -0,0 +1,73 @@
+import { ASTNode, ArrayBound, TokenType } from '../../types';
+
+const OPERATOR_TEXT: Partial<Record<TokenType, string>> = {
+  [TokenType.PLUS]: '+',
+  [TokenType.MINUS]: '-',
+  [TokenType.MULTIPLY]: '*',
+  [TokenType.DIVIDE]: '/',
+  [TokenType.DIV]: 'Div',
+  [TokenType.MOD]: 'Mod',
+  [TokenType.EQUAL]: '=',
+  [TokenType.NOT_EQUAL]: '<>',
+  [TokenType.LESS]: '<',
+  [TokenType.LESS_EQUAL]: '<=',
+  [TokenType.GREATER]: '>',
+  [TokenType.GREATER_EQUAL]: '>=',
+  [TokenType.AND]: 'And',
+  [TokenType.OR]: 'Or',
+  [TokenType.NOT]: 'Not'
+};
+
+// A runtime or constant value as it would be written in source
+export function formatValue(value: any): string {
+  if (typeof value === 'string') return value.length === 1 ? `'${value}'` : `"${value}"`;
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  return String(value);
+}
+
+// A value as Write prints it: Reals to at most 4 decimals, text without quotes
+export function formatOutput(value: any): string {
+  if (typeof value === 'number' && !Number.isInteger(value)) return parseFloat(value.toFixed(4)).toString();
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  return String(value);
+}
+
+// Array dimensions as declared: `[10]` for the default 0-based range, `[1..10]` otherwise and `[]` when open
+export function formatDimensions(dims: (ArrayBound | null)[]): string {
+  return dims.map(bound => {
+    if (!bound) return '[]';
+    return bound.low === 0 ? `[${bound.high + 1}]` : `[${bound.low}..${bound.high}]`;
+  }).join('');
+}
+
+// Rebuilds readable source text for an expression, e.g. for error messages.
+// Binary operations are parenthesised only when nested, which is enough to keep the meaning.
+export function formatExpression(node: ASTNode, nested: boolean = false): string {
+  switch (node.kind) {
+    case 'Literal':
+      if (node.valueType === 'String') return `"${node.value}"`;
+      if (node.valueType === 'Boolean') return node.value ? 'True' : 'False';
+      if (node.valueType === 'Nil') return 'Nil';
+      return String(node.value);
+    case 'Identifier':
+      return node.name;
+    case 'FieldAccess':
+      return `${formatExpression(node.target, true)}.${node.field}${node.indexes.map(index => `[${formatExpression(index)}]`).join('')}`;
+    case 'Deref':
+      return `${formatExpression(node.target, true)}^`;
+    case 'ArrayAccess':
+      return node.name + node.indexes.map(idx => `[${formatExpression(idx)}]`).join('');
+    case 'Call':
+      return `${node.name}(${node.args.map(arg => formatExpression(arg)).join(', ')})`;
+    case 'UnaryOp': {
+      const op = OPERATOR_TEXT[node.operator] ?? '?';
+      return `${op}${op === 'Not' ? ' ' : ''}${formatExpression(node.operand, true)}`;
+    }
+    case 'BinaryOp': {
+      const text = `${formatExpression(node.left, true)} ${OPERATOR_TEXT[node.operator] ?? '?'} ${formatExpression(node.right, true)}`;
+      return nested ? `(${text})` : text;
+    }
+    default:
+      return node.kind;
+  }
+}
@@ -0,0 +1,174 @@
+import { Lexer } from './lexer';
+import { Parser } from './parser';
+import { Interpreter } from './interpreter';
+import { TypeChecker } from './checker';
+import { ExecutionLimits, InterpreterEvent, ProgramFile, StepCommand, WorkerRequest, WorkerResponse } from '../../types';
+
+// Steps executed before yielding to the worker's event loop, so 'pause' and
+// 'breakpoints' messages are still handled while a long loop is running.
+const CHUNK_SIZE = 5000;
+
+type PauseRule =
+  | { kind: 'run' }
+  | { kind: 'into' }
+  | { kind: 'over', depth: number }
+  | { kind: 'out', depth: number }
+  | { kind: 'cursor', line: number };
+
+class ExecutionSession {
+  private interpreter: Interpreter;
+  private generator: Generator<InterpreterEvent, void, any> | null = null;
+  private breakpoints: Set<number>;
+  private rule: PauseRule = { kind: 'run' };
+  private depth: number = 0;
+  private changed: Set<string> = new Set();
+  private pauseRequested: boolean = false;
+  private stdin: string[]; // Preset console input not read yet
+
+  constructor(code: string, breakpoints: number[], limits: ExecutionLimits, files: ProgramFile[], target: 'program' | 'tests', stdin: string[]) {
+    this.interpreter = new Interpreter(limits, files);
+    this.breakpoints = new Set(breakpoints);
+    this.stdin = [...stdin];
+    try {
+      const tokens = new Lexer(code).tokenize();
+      const { program, diagnostics: syntaxErrors } = new Parser(tokens).parse();
+      if (syntaxErrors.length > 0) {
+        post({ type: 'diagnostics', phase: 'syntax', diagnostics: syntaxErrors });
+        return;
+      }
+      // Type checking a partial program would only add noise, so it waits for the syntax to be clean
+      const typeErrors = new TypeChecker().check(program);
+      if (typeErrors.length > 0) {
+        post({ type: 'diagnostics', phase: 'type', diagnostics: typeErrors });
+        return;
+      }
+      this.generator = target === 'tests' ? this.interpreter.runTests(program) : this.interpreter.execute(program);
+    } catch (e: any) {
+      post({ type: 'error', value: e.message });
+    }
+  }
+
+  public setBreakpoints(lines: number[]) {
+    this.breakpoints = new Set(lines);
+  }
+
+  public requestPause() {
+    this.pauseRequested = true;
+  }
+
+  public resume(command: StepCommand, line?: number) {
+    this.rule = this.toRule(command, line);
+    this.pauseRequested = false;
+    this.run();
+  }
+
+  public provideInput(value: string) {
+    this.run(value);
+  }
+
+  private toRule(command: StepCommand, line?: number): PauseRule {
+    switch (command) {
+      case 'into': return { kind: 'into' };
+      case 'over': return { kind: 'over', depth: this.depth };
+      case 'out': return { kind: 'out', depth: this.depth };
+      case 'cursor': return { kind: 'cursor', line: line ?? 0 };
+      default: return { kind: 'run' };
+    }
+  }
+
+  private shouldPause(line: number, depth: number): boolean {
+    if (this.pauseRequested || this.breakpoints.has(line)) return true;
+    switch (this.rule.kind) {
+      case 'into': return true;
+      case 'over': return depth <= this.rule.depth;
+      case 'out': return depth < this.rule.depth;
+      case 'cursor': return line === this.rule.line;
+      default: return false;
+    }
+  }
+
+  // Changed variable keys since the last time the IDE received a full snapshot
+  private takeChanged(): string[] {
+    const changed = Array.from(this.changed);
+    this.changed = new Set();
+    return changed;
+  }
+
+  private run(injectedValue?: any) {
+    if (!this.generator) return;
+    try {
+      let result = this.generator.next(injectedValue);
+      let steps = 0;
+      while (!result.done) {
+        const event = result.value;
+        if (event.type === 'step') {
+          this.depth = event.depth;
+          for (const change of event.changes) {
+            const key = `${change.frameId}:${change.name}`;
+            this.changed.add(key);
+            // A cell also gets its own key, like 3:matrix[2][5], so the Variables panel can mark just that cell
+            if (change.indexes) this.changed.add(key + change.indexes.map(index => `[${index}]`).join(''));
+          }
+          if (this.shouldPause(event.line, event.depth)) {
+            this.pauseRequested = false;
+            post({ type: 'paused', line: event.line, callStack: event.callStack(), variables: this.interpreter.getVariablesSnapshot(), changed: this.takeChanged() });
+            return;
+          }
+          if (++steps >= CHUNK_SIZE) {
+            post({ type: 'step', line: event.line, callStack: event.callStack() });
+            setTimeout(() => this.run(), 0);
+            return;
+          }
+        } else if (event.type === 'output' || event.type === 'file' || event.type === 'test') {
+          post(event);
+        } else if (event.type === 'error') {
+          post({ type: 'error', value: event.value, error: event.error, variables: this.interpreter.getVariablesSnapshot() });
+          this.generator = null;
+          return;
+        } else if (event.type === 'input') {
+          // Preset lines answer Read first; the IDE's console takes over once they run out
+          const preset = this.stdin.shift();
+          if (preset !== undefined) {
+            post({ type: 'echo', value: preset });
+            result = this.generator.next(preset);
+            continue;
+          }
+          post({ type: 'input', varName: event.varName, varType: event.varType, variables: this.interpreter.getVariablesSnapshot(), changed: this.takeChanged() });
+          return;
+        }
+        result = this.generator.next();
+      }
+      post({ type: 'done', variables: this.interpreter.getVariablesSnapshot(), changed: this.takeChanged() });
+      this.generator = null;
+    } catch (e: any) {
+      post({ type: 'error', value: `System Error: ${e.message}` });
+      this.generator = null;
+    }
+  }
+}
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+let session: ExecutionSession | null = null;
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  switch (request.type) {
+    case 'start':
+      session = new ExecutionSession(request.code, request.breakpoints, request.limits, request.files, request.target, request.stdin);
+      session.resume(request.command, request.line);
+      break;
+    case 'resume':
+      session?.resume(request.command, request.line);
+      break;
+    case 'pause':
+      session?.requestPause();
+      break;
+    case 'breakpoints':
+      session?.setBreakpoints(request.lines);
+      break;
+    case 'input':
+      session?.provideInput(request.value);
+      break;
+  }
+};
@@ -4,22 +4,31 @@
 export enum TokenType {
   // Keywords
   ALGORITHM, BEGIN, END, VAR, CONST,
+  TYPE, RECORD, ENDRECORD,
   IF, THEN, ELSE, ENDIF,
   FOR, TO, STEP, DO, ENDFOR,
   WHILE, ENDWHILE,
+  REPEAT, UNTIL,
+  CASE, OF, ENDCASE,
   READ, WRITE,
+  ALLOCATE, FREE,
+  ASSERT, TEST, ENDTEST,
   
   // New Keywords for Functions/Procedures
   FUNCTION, ENDFUNCTION, PROCEDURE, ENDPROCEDURE, RETURN,
+
+  // Boolean literals, and the pointer that points nowhere
+  TRUE, FALSE, NIL,
   
   // Types
-  T_INTEGER, T_REAL, T_BOOLEAN, T_STRING, T_CHAR,
+  T_INTEGER, T_REAL, T_BOOLEAN, T_STRING, T_CHAR, T_FILE,
 
   // Operators & Punctuation
   ASSIGN, // ←, <-, :=
   PLUS, MINUS, MULTIPLY, DIVIDE, DIV, MOD,
   LPAREN, RPAREN, LBRACKET, RBRACKET,
-  COMMA, COLON,
+  COMMA, COLON, DOT, DOTDOT, // DOT selects a record field, DOTDOT is the '..' of ranges
+  CARET, // ^Node is a pointer type, p^ the value p points to
   LESS, LESS_EQUAL, GREATER, GREATER_EQUAL, EQUAL, NOT_EQUAL,
   AND, OR, NOT,
 
@@ -30,32 +39,53 @@ export enum TokenType {
   EOF
 }
 
+// Columns are 1-based; the end is exclusive, just past the last character
+export interface SourceSpan {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
 export interface Token {
   type: TokenType;
   value: string;
   line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
 }
 
 // --- PARSER (AST) TYPES ---
 
 export interface BaseNode {
-  line: number;
+  line: number; // First line of the construct, e.g. the 'If' line for a whole If...EndIf
+  span: SourceSpan;
 }
 
 export type ASTNode = 
   | ProgramNode
+  | ConstDeclNode
+  | RecordTypeNode
   | VarDeclNode
   | BlockNode
   | AssignmentNode
   | IfNode
   | WhileNode
+  | RepeatNode
+  | CaseNode
   | ForNode
   | IoNode
+  | AllocationNode
+  | AssertNode
+  | TestDeclNode
   | BinaryOpNode
   | UnaryOpNode
   | LiteralNode
   | IdentifierNode
   | ArrayAccessNode
+  | FieldAccessNode
+  | DerefNode
   | FunctionDeclNode
   | ProcedureDeclNode
   | CallNode
@@ -64,16 +94,34 @@ export type ASTNode =
 export interface ProgramNode extends BaseNode {
   kind: 'Program';
   name: string;
+  constants: ConstDeclNode[];
+  types: RecordTypeNode[];
   variables: VarDeclNode[];
   functions: (FunctionDeclNode | ProcedureDeclNode)[];
+  tests: TestDeclNode[]; // Run only by the IDE's Run Tests command, never as part of the program
   body: BlockNode;
 }
 
+export interface ConstDeclNode extends BaseNode {
+  kind: 'ConstDecl';
+  name: string;
+  constType?: string; // Declared type; inferred from the value when omitted
+  value: ASTNode; // Only literals, other constants and arithmetic, so the parser can fold it
+  valueType: string; // Static type of the value, as the checker sees it
+}
+
+// Student = Record ... EndRecord in the Type section; fields are declared like variables
+export interface RecordTypeNode extends BaseNode {
+  kind: 'RecordType';
+  name: string;
+  fields: VarDeclNode[];
+}
+
 export interface VarDeclNode extends BaseNode {
   kind: 'VarDecl';
   names: string[];
   varType: string;
-  dimensions: number[]; // [] for scalar, [10] for 1D, [10, 10] for 2D
+  dimensions: ArrayBound[]; // [] for scalar, one index range per dimension otherwise
 }
 
 export interface BlockNode extends BaseNode {
@@ -83,7 +131,7 @@ export interface BlockNode extends BaseNode {
 
 export interface AssignmentNode extends BaseNode {
   kind: 'Assignment';
-  target: string | ArrayAccessNode;
+  target: string | ArrayAccessNode | FieldAccessNode | DerefNode;
   value: ASTNode;
 }
 
@@ -100,6 +148,31 @@ export interface WhileNode extends BaseNode {
   body: BlockNode;
 }
 
+// Post-test loop: the body always runs at least once
+export interface RepeatNode extends BaseNode {
+  kind: 'Repeat';
+  body: BlockNode;
+  condition: ASTNode; // Loop ends once this is True
+}
+
+export interface CaseLabel {
+  low: any; // Constant value, folded by the parser
+  high?: any; // Upper bound of a range like 1..5
+  span: SourceSpan;
+}
+
+export interface CaseBranch {
+  labels: CaseLabel[];
+  body: BlockNode;
+}
+
+export interface CaseNode extends BaseNode {
+  kind: 'Case';
+  selector: ASTNode;
+  branches: CaseBranch[];
+  elseBranch?: BlockNode;
+}
+
 export interface ForNode extends BaseNode {
   kind: 'For';
   variable: string;
@@ -115,11 +188,38 @@ export interface IoNode extends BaseNode {
   args: ASTNode[];
 }
 
+// Allocate(p) points p at a new heap cell holding a default value; Free(p) releases the cell p points to
+export interface AllocationNode extends BaseNode {
+  kind: 'Allocation';
+  type: 'Allocate' | 'Free';
+  target: ASTNode; // Any reference holding a pointer
+}
+
+export interface AssertNode extends BaseNode {
+  kind: 'Assert';
+  condition: ASTNode;
+  message?: ASTNode; // Shown when the condition is False; the condition's text is shown otherwise
+}
+
+// Inclusive index range of one array dimension: `Array[1..10]`, or `Array[10]` for 0..9
+export interface ArrayBound {
+  low: number;
+  high: number;
+}
+
+export interface ParamDecl {
+  name: string;
+  type: string;
+  byRef: boolean; // Declared 'Var' or 'E/S': the argument must be a variable, and writes reach the caller
+  dimensions: (ArrayBound | null)[]; // Empty for scalars; null marks an open size, `Array[] of Integer`
+}
+
 export interface FunctionDeclNode extends BaseNode {
   kind: 'FunctionDecl';
   name: string;
-  params: { name: string; type: string }[];
+  params: ParamDecl[];
   returnType: string;
+  returnDimensions: (ArrayBound | null)[]; // Empty unless the function returns a whole array
   variables: VarDeclNode[];
   body: BlockNode;
 }
@@ -127,7 +227,15 @@ export interface FunctionDeclNode extends BaseNode {
 export interface ProcedureDeclNode extends BaseNode {
   kind: 'ProcedureDecl';
   name: string;
-  params: { name: string; type: string }[];
+  params: ParamDecl[];
+  variables: VarDeclNode[];
+  body: BlockNode;
+}
+
+// Test "name" ... EndTest: a procedure without parameters that checks the program's routines with Assert
+export interface TestDeclNode extends BaseNode {
+  kind: 'TestDecl';
+  name: string;
   variables: VarDeclNode[];
   body: BlockNode;
 }
@@ -159,7 +267,7 @@ export interface UnaryOpNode extends BaseNode {
 export interface LiteralNode extends BaseNode {
   kind: 'Literal';
   value: any;
-  valueType: 'Integer' | 'Real' | 'String' | 'Boolean';
+  valueType: 'Integer' | 'Real' | 'String' | 'Boolean' | 'Nil'; // A one-character String also fits a Char
 }
 
 export interface IdentifierNode extends BaseNode {
@@ -173,20 +281,151 @@ export interface ArrayAccessNode extends BaseNode {
   indexes: ASTNode[];
 }
 
+// s.name, students[i].grade, s.marks[2]: a field of the record `target` evaluates to
+export interface FieldAccessNode extends BaseNode {
+  kind: 'FieldAccess';
+  target: ASTNode; // Identifier, ArrayAccess, Deref or another FieldAccess
+  field: string;
+  indexes: ASTNode[]; // Applied to the field when it is an array, as in s.marks[2]
+}
+
+// p^, head^.next^: the heap cell the pointer `target` points to
+export interface DerefNode extends BaseNode {
+  kind: 'Deref';
+  target: ASTNode;
+}
+
+// --- SEMANTIC ANALYSIS TYPES ---
+
+export interface Diagnostic {
+  line: number;
+  message: string;
+  span?: SourceSpan;
+}
+
+export interface ParseResult {
+  program: ProgramNode; // Partial when there are diagnostics, and must not be run then
+  diagnostics: Diagnostic[];
+}
+
 // --- RUNTIME TYPES ---
 
 export interface RuntimeValue {
   value: any;
-  type: 'Integer' | 'Real' | 'String' | 'Boolean' | 'Array';
+  type: 'Integer' | 'Real' | 'String' | 'Char' | 'Boolean' | 'Array' | 'Record' | 'Pointer' | 'File';
   arrayType?: string;
-  dims?: number[]; // Store dimensions for array bounds checking
+  recordType?: string; // Declared record type name, for 'Record' values
+  pointerType?: string; // Declared pointer type such as ^Node, for 'Pointer' values (a heap address, or null for Nil)
+  dims?: ArrayBound[]; // Index range of each dimension, for translating indexes and bounds checking
+  isConstant?: boolean; // Declared in the Const section; cannot be assigned or read into
+  aliases?: VariableChange[]; // For by-reference parameters: the caller variables (or cells) that writes go to
+}
+
+// Value of a File variable: the project file it is assigned to, and how far it has been read or written
+export interface FileHandle {
+  name: string | null; // Set by Assign
+  mode: 'closed' | 'read' | 'write';
+  lines: string[]; // The whole file while reading, everything written so far while writing
+  position: number; // Next line to read
+}
+
+// A .txt or .dat file next to the running program
+export interface ProgramFile {
+  name: string;
+  content: string;
+}
+
+export interface ExecutionLimits {
+  maxSteps: number; // Statements and loop iterations before a program is assumed to loop forever
+  maxCallDepth: number; // Nested Function/Procedure calls before recursion is assumed to be unbounded
+}
+
+export interface StackFrameInfo {
+  id: number; // Unique per call, so two recursive calls of the same function stay distinct
+  name: string;
+  line: number; // Line currently executing in this frame
+}
+
+export interface FrameVariables {
+  id: number; // Matches StackFrameInfo.id
+  name: string;
+  params: Map<string, RuntimeValue>;
+  locals: Map<string, RuntimeValue>;
+}
+
+export interface VariablesSnapshot {
+  globals: Map<string, RuntimeValue>;
+  frames: FrameVariables[]; // One per active Function/Procedure call, outermost first
+  heap: HeapCellInfo[]; // Every cell allocated so far, freed ones included, in allocation order
+}
+
+export interface HeapCellInfo {
+  address: number;
+  type: string; // Type of the value stored, such as Node
+  freed: boolean;
+  fields: HeapFieldInfo[]; // A record's fields, or a single unnamed entry for any other value
+}
+
+export interface HeapFieldInfo {
+  name: string;
+  value: any;
+  isPointer: boolean; // The value is then an address, or null for Nil
+}
+
+export interface RuntimeErrorInfo {
+  message: string;
+  line: number;
+  span?: SourceSpan; // Range of the failing expression or statement
+  expression?: string; // Source text of the failing expression, when the failure is inside one
+  callStack: StackFrameInfo[]; // Innermost frame first, at the moment of failure
+}
+
+// Outcome of one Test block: 'failed' when an Assert was False, 'error' when it stopped on any other runtime error
+export interface TestResult {
+  name: string;
+  line: number;
+  status: 'passed' | 'failed' | 'error';
+  error?: RuntimeErrorInfo;
+}
+
+export interface VariableChange {
+  frameId: number; // Frame that owns the variable (StackFrameInfo.id)
+  name: string;
+  indexes?: number[]; // Set when a single array cell changed
 }
 
 export type InterpreterEvent = 
   | { type: 'output', value: string }
-  | { type: 'error', value: string }
+  | { type: 'file', name: string, content: string } // A program file was created or closed after writing
+  | { type: 'error', value: string, error?: RuntimeErrorInfo }
   | { type: 'input', varName: string, varType: string }
-  | { type: 'step', line: number, variables: Map<string, RuntimeValue> };
+  | { type: 'test', result: TestResult }
+  | { type: 'step', line: number, depth: number, frameId: number, changes: VariableChange[], callStack: () => StackFrameInfo[] }; // Built only when asked for
+
+// --- WORKER PROTOCOL ---
+// The Lexer/Parser/Interpreter pipeline runs in services/algo/worker.ts; the IDE only talks to it through these messages.
+
+// How far execution should go before the debugger pauses again ('cursor' runs until `line`)
+export type StepCommand = 'run' | 'into' | 'over' | 'out' | 'cursor';
+
+export type WorkerRequest =
+  | { type: 'start', code: string, breakpoints: number[], limits: ExecutionLimits, files: ProgramFile[], command: StepCommand, line?: number, target: 'program' | 'tests', stdin: string[] }
+  | { type: 'resume', command: StepCommand, line?: number }
+  | { type: 'pause' }
+  | { type: 'breakpoints', lines: number[] }
+  | { type: 'input', value: string };
+
+export type WorkerResponse =
+  | { type: 'output', value: string }
+  | { type: 'file', name: string, content: string }
+  | { type: 'test', result: TestResult }
+  | { type: 'echo', value: string } // A preset input line handed to Read, shown like typed input
+  | { type: 'error', value: string, error?: RuntimeErrorInfo, variables?: VariablesSnapshot }
+  | { type: 'diagnostics', phase: 'syntax' | 'type', diagnostics: Diagnostic[] } // Found before running; the program does not start
+  | { type: 'input', varName: string, varType: string, variables: VariablesSnapshot, changed: string[] }
+  | { type: 'step', line: number, callStack: StackFrameInfo[] } // Latest position while running freely
+  | { type: 'paused', line: number, callStack: StackFrameInfo[], variables: VariablesSnapshot, changed: string[] }
+  | { type: 'done', variables: VariablesSnapshot, changed: string[] };
 
 export interface ExecutionResult {
   output: string[];
@@ -204,6 +443,15 @@ export interface FileNode {
   parentId: string | null;
   content?: string;
   isOpen?: boolean;
+  runConfigurations?: RunConfiguration[]; // Saved with the file, for programs that Read
+}
+
+// A named way to run a program: console input typed in advance and, optionally, the output it should print
+export interface RunConfiguration {
+  id: string;
+  name: string;
+  input: string[]; // One line per Read from the console, in order
+  expectedOutput?: string[]; // Compared with the program's output when it finishes
 }
 
 // --- DOCS TYPES ---